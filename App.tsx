@@ -1,12 +1,17 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { SetupView } from './components/SetupView';
 import { GameView } from './components/GameView';
-import { Lineup, TeamConfig, LogEntry, TeamSide, GameState, RoleMapping } from './types';
+import { Lineup, TeamConfig, TeamSide, GameState, RoleMapping, MatchRules, GameEvent, SavedHistory, SavedGame } from './types';
+import { DEFAULT_MATCH_RULES, getSetWinner, isMatchOver, normalizeRules } from './utils/matchRules';
+import { migrateLogs } from './utils/logs';
+import {
+  GameHistory, canRedo, canUndo, createHistory, createMatchState, fromSavedHistory, getHistoryState, getInitialGameState,
+  normalizeGameState, pushEvent, redoEvent, trimHistory, undoEvent
+} from './utils/engine';
+import { clearAutosave, createSavedGame, readUnfinishedMatch, writeAutosave } from './utils/autosave';
 
 // Helper functions to generate FRESH state objects every time
-const getInitialLineup = (): Lineup => ({ 1: '', 2: '', 3: '', 4: '', 5: '', 6: '' });
-const getInitialRoles = (): RoleMapping => ({ 1: '?', 2: '?', 3: '?', 4: '?', 5: '?', 6: '?' });
 const getInitialConfig = (): TeamConfig => ({ matchName: '', myName: '', opName: '' });
 
 const App: React.FC = () => {
@@ -17,31 +22,14 @@ const App: React.FC = () => {
   
   // Team Configuration
   const [teamConfig, setTeamConfig] = useState<TeamConfig>(getInitialConfig());
+  const [matchRules, setMatchRules] = useState<MatchRules>(DEFAULT_MATCH_RULES);
 
-  // Current Game State
-  const [currentSet, setCurrentSet] = useState(1);
-  const [mySetWins, setMySetWins] = useState(0);
-  const [opSetWins, setOpSetWins] = useState(0);
-  
-  const [myLineup, setMyLineup] = useState<Lineup>(getInitialLineup());
-  const [opLineup, setOpLineup] = useState<Lineup>(getInitialLineup());
-  
-  // Roles
-  const [myRoles, setMyRoles] = useState<RoleMapping>(getInitialRoles());
-  const [opRoles, setOpRoles] = useState<RoleMapping>(getInitialRoles());
-
-  // Liberos
-  const [myLibero, setMyLibero] = useState<string>('');
-  const [opLibero, setOpLibero] = useState<string>('');
+  // Match events (game state is derived by the engine, undo/redo move the cursor)
+  const [history, setHistory] = useState<GameHistory>(() => createHistory(getInitialGameState()));
+  const game = useMemo(() => getHistoryState(history, matchRules), [history, matchRules]);
 
-  const [myScore, setMyScore] = useState(0);
-  const [opScore, setOpScore] = useState(0);
-  const [servingTeam, setServingTeam] = useState<TeamSide>('me');
-  const [logs, setLogs] = useState<LogEntry[]>([]);
-
-  // History Stacks
-  const [history, setHistory] = useState<GameState[]>([]);
-  const [future, setFuture] = useState<GameState[]>([]);
+  // Match left unfinished in a previous session (offered in SetupView)
+  const [unfinishedMatch, setUnfinishedMatch] = useState<SavedGame | null>(() => readUnfinishedMatch());
 
   // PWA Install Prompt
   const [deferredPrompt, setDeferredPrompt] = useState<any>(null);
@@ -86,9 +74,15 @@ const App: React.FC = () => {
     }
   };
 
+  // Autosave after every change so a killed tab does not lose the match
+  useEffect(() => {
+    if (!isGameActive) return;
+    writeAutosave(createSavedGame(teamConfig, matchRules, game, history));
+  }, [isGameActive, teamConfig, matchRules, game, history]);
+
   useEffect(() => {
     const handleBeforeUnload = (e: BeforeUnloadEvent) => {
-      if (view === 'game' && logs.length > 0) {
+      if (view === 'game' && game.logs.length > 0) {
         e.preventDefault();
         e.returnValue = ''; 
         return '';
@@ -97,62 +91,18 @@ const App: React.FC = () => {
 
     window.addEventListener('beforeunload', handleBeforeUnload);
     return () => window.removeEventListener('beforeunload', handleBeforeUnload);
-  }, [view, logs]);
+  }, [view, game.logs]);
 
-  const getCurrentState = (): GameState => ({
-    currentSet, mySetWins, opSetWins, myLineup, opLineup, myRoles, opRoles, myLibero, opLibero, myScore, opScore, servingTeam, logs
-  });
-
-  const pushHistory = () => {
-    const current = getCurrentState();
-    setHistory(prev => [...prev, current]);
-    setFuture([]); 
+  const dispatch = (event: GameEvent) => {
+    setHistory(prev => trimHistory(pushEvent(prev, event), matchRules));
   };
 
   const handleUndo = () => {
-    if (history.length === 0) return;
-    const previous = history[history.length - 1];
-    const current = getCurrentState();
-
-    setFuture(prev => [current, ...prev]); 
-    setHistory(prev => prev.slice(0, -1)); 
-
-    setCurrentSet(previous.currentSet);
-    setMySetWins(previous.mySetWins);
-    setOpSetWins(previous.opSetWins);
-    setMyLineup(previous.myLineup);
-    setOpLineup(previous.opLineup);
-    setMyRoles(previous.myRoles || getInitialRoles());
-    setOpRoles(previous.opRoles || getInitialRoles());
-    setMyLibero(previous.myLibero);
-    setOpLibero(previous.opLibero);
-    setMyScore(previous.myScore);
-    setOpScore(previous.opScore);
-    setServingTeam(previous.servingTeam);
-    setLogs(previous.logs);
+    setHistory(prev => undoEvent(prev));
   };
 
   const handleRedo = () => {
-    if (future.length === 0) return;
-    const next = future[0];
-    const current = getCurrentState();
-
-    setHistory(prev => [...prev, current]); 
-    setFuture(prev => prev.slice(1)); 
-
-    setCurrentSet(next.currentSet);
-    setMySetWins(next.mySetWins);
-    setOpSetWins(next.opSetWins);
-    setMyLineup(next.myLineup);
-    setOpLineup(next.opLineup);
-    setMyRoles(next.myRoles || getInitialRoles());
-    setOpRoles(next.opRoles || getInitialRoles());
-    setMyLibero(next.myLibero);
-    setOpLibero(next.opLibero);
-    setMyScore(next.myScore);
-    setOpScore(next.opScore);
-    setServingTeam(next.servingTeam);
-    setLogs(next.logs);
+    setHistory(prev => redoEvent(prev));
   };
 
   const handleGameStart = (
@@ -163,24 +113,24 @@ const App: React.FC = () => {
       initialOpRoles: RoleMapping,
       initialMyLibero: string, 
       initialOpLibero: string, 
-      initialServingTeam: TeamSide
+      initialServingTeam: TeamSide,
+      rules: MatchRules,
+      initialMySecondLibero: string,
+      initialOpSecondLibero: string
     ) => {
     setTeamConfig(config);
-    setMyLineup(initialMyLineup);
-    setOpLineup(initialOpLineup);
-    setMyRoles(initialMyRoles);
-    setOpRoles(initialOpRoles);
-    setMyLibero(initialMyLibero);
-    setOpLibero(initialOpLibero);
-    setMyScore(0);
-    setOpScore(0);
-    setServingTeam(initialServingTeam);
-    
-    setHistory([]); 
-    setFuture([]);
+    setMatchRules(rules);
+    setHistory(createHistory(createMatchState({
+      lineups: { me: initialMyLineup, op: initialOpLineup },
+      roles: { me: initialMyRoles, op: initialOpRoles },
+      liberos: { me: initialMyLibero, op: initialOpLibero },
+      secondLiberos: { me: initialMySecondLibero, op: initialOpSecondLibero },
+      firstServer: initialServingTeam
+    }, Date.now())));
     
     setView('game');
     setIsGameActive(true);
+    setUnfinishedMatch(null);
   };
 
   const handleResumeGame = () => {
@@ -196,22 +146,11 @@ const App: React.FC = () => {
     console.log("Triggering Full Match Reset");
     // 1. Reset Data with fresh objects
     setTeamConfig(getInitialConfig());
-    setMyLineup(getInitialLineup());
-    setOpLineup(getInitialLineup());
-    setMyRoles(getInitialRoles());
-    setOpRoles(getInitialRoles());
-    setMyLibero('');
-    setOpLibero('');
+    setMatchRules(DEFAULT_MATCH_RULES);
     
-    // 2. Reset Scores & State
-    setCurrentSet(1);
-    setMySetWins(0);
-    setOpSetWins(0);
-    setMyScore(0);
-    setOpScore(0);
-    setLogs([]);
-    setHistory([]);
-    setFuture([]);
+    // 2. Reset Scores, State & History
+    setHistory(createHistory(getInitialGameState()));
+    clearAutosave();
     
     // 3. Reset View State
     setIsGameActive(false);
@@ -222,58 +161,46 @@ const App: React.FC = () => {
   };
 
   const handleNextSet = () => {
-    pushHistory(); 
-    if (myScore > opScore) {
-      setMySetWins(prev => prev + 1);
-    } else if (opScore > myScore) {
-      setOpSetWins(prev => prev + 1);
-    }
-    setCurrentSet(prev => prev + 1);
+    // Only a finished set (target reached with the required lead) of a running match can be closed
+    if (isMatchOver(matchRules, game.mySetWins, game.opSetWins)) return;
+    const setWinner = getSetWinner(matchRules, game.currentSet, game.myScore, game.opScore);
+    if (!setWinner) return;
+
+    dispatch({ type: 'END_SET', at: Date.now() });
+
+    // Match decided: stay on the court so GameView can show the final result
+    const nextMySetWins = game.mySetWins + (setWinner === 'me' ? 1 : 0);
+    const nextOpSetWins = game.opSetWins + (setWinner === 'op' ? 1 : 0);
+    if (isMatchOver(matchRules, nextMySetWins, nextOpSetWins)) return;
     setView('setup'); 
   };
 
-  const handleGameAction = (
-    newLog: LogEntry | null, 
-    scoreUpdate: { myDelta: number, opDelta: number } | null,
-    lineupUpdate: { isMyTeam: boolean, newLineup: Lineup, newLibero?: string } | null,
-    newServingTeam: TeamSide | null
-  ) => {
-    pushHistory();
-    if (newLog) setLogs(prev => [...prev, { ...newLog, setNumber: currentSet }]);
-    if (scoreUpdate) {
-        setMyScore(prev => prev + scoreUpdate.myDelta);
-        setOpScore(prev => prev + scoreUpdate.opDelta);
-    }
-    if (lineupUpdate) {
-       if (lineupUpdate.isMyTeam) {
-           setMyLineup(lineupUpdate.newLineup);
-           if (lineupUpdate.newLibero !== undefined) setMyLibero(lineupUpdate.newLibero);
-       } else {
-           setOpLineup(lineupUpdate.newLineup);
-           if (lineupUpdate.newLibero !== undefined) setOpLibero(lineupUpdate.newLibero);
-       }
+  const handleLoadGame = (savedState: GameState, config: TeamConfig, rules?: MatchRules, savedHistory?: SavedHistory) => {
+    setTeamConfig(config);
+    setMatchRules(normalizeRules(rules));
+    const liberos = { me: [savedState.myLibero, savedState.mySecondLibero], op: [savedState.opLibero, savedState.opSecondLibero] };
+    const state = normalizeGameState({ ...savedState, logs: migrateLogs(savedState.logs, config, liberos) });
+    if (savedHistory) {
+      // Undo steps recorded before the save
+      const restored = fromSavedHistory(savedHistory, state.logs);
+      const baseLogs = typeof savedHistory.baseLogs === 'number' ? restored.base.logs : migrateLogs(restored.base.logs, config, liberos);
+      setHistory({ ...restored, base: normalizeGameState({ ...restored.base, logs: baseLogs }) });
+    } else {
+      setHistory(createHistory(state));
     }
-    if (newServingTeam) setServingTeam(newServingTeam);
+    setIsGameActive(true);
+    setUnfinishedMatch(null);
   };
 
-  const handleLoadGame = (savedState: GameState, config: TeamConfig) => {
-    setTeamConfig(config);
-    setCurrentSet(savedState.currentSet || 1); 
-    setMySetWins(savedState.mySetWins || 0);
-    setOpSetWins(savedState.opSetWins || 0);
-    setMyLineup(savedState.myLineup);
-    setOpLineup(savedState.opLineup);
-    setMyRoles(savedState.myRoles || getInitialRoles());
-    setOpRoles(savedState.opRoles || getInitialRoles());
-    setMyLibero(savedState.myLibero || '');
-    setOpLibero(savedState.opLibero || '');
-    setMyScore(savedState.myScore);
-    setOpScore(savedState.opScore);
-    setServingTeam(savedState.servingTeam);
-    setLogs(savedState.logs);
-    setHistory([]);
-    setFuture([]);
-    setIsGameActive(true);
+  const handleResumeUnfinished = () => {
+    if (!unfinishedMatch) return;
+    handleLoadGame(unfinishedMatch.state, unfinishedMatch.config, unfinishedMatch.rules, unfinishedMatch.history);
+    setView('game');
+  };
+
+  const handleDiscardUnfinished = () => {
+    clearAutosave();
+    setUnfinishedMatch(null);
   };
 
   const simulatorClasses = view === 'setup'
@@ -295,42 +222,57 @@ const App: React.FC = () => {
             <SetupView 
                 key={setupKey} // THIS KEY IS CRITICAL FOR RESET
                 initialConfig={teamConfig}
-                initialMyLineup={myLineup}
-                initialOpLineup={opLineup}
-                initialMyRoles={myRoles}
-                initialOpRoles={opRoles}
-                initialMyLibero={myLibero}
-                initialOpLibero={opLibero}
+                initialRules={matchRules}
+                initialMyLineup={game.myLineup}
+                initialOpLineup={game.opLineup}
+                initialMyRoles={game.myRoles}
+                initialOpRoles={game.opRoles}
+                initialMyLibero={game.myLibero}
+                initialOpLibero={game.opLibero}
+                initialMySecondLibero={game.mySecondLibero}
+                initialOpSecondLibero={game.opSecondLibero}
                 onStart={handleGameStart}
                 onInstallApp={deferredPrompt ? handleInstallClick : undefined}
                 onToggleFullScreen={toggleFullScreen}
                 isGameActive={isGameActive}
                 onResume={handleResumeGame}
                 onNewMatch={handleNewMatch}
+                unfinishedMatch={unfinishedMatch}
+                onResumeUnfinished={handleResumeUnfinished}
+                onDiscardUnfinished={handleDiscardUnfinished}
             />
             ) : (
             <GameView 
                 teamConfig={teamConfig}
-                currentSet={currentSet}
-                mySetWins={mySetWins}
-                opSetWins={opSetWins}
-                initialMyLineup={myLineup}
-                initialOpLineup={opLineup}
-                initialMyRoles={myRoles}
-                initialOpRoles={opRoles}
-                initialMyLibero={myLibero}
-                initialOpLibero={opLibero}
-                myScore={myScore}
-                opScore={opScore}
-                servingTeam={servingTeam}
-                logs={logs}
-                onGameAction={handleGameAction}
+                matchRules={matchRules}
+                currentSet={game.currentSet}
+                mySetWins={game.mySetWins}
+                opSetWins={game.opSetWins}
+                initialMyLineup={game.myLineup}
+                initialOpLineup={game.opLineup}
+                initialMyRoles={game.myRoles}
+                initialOpRoles={game.opRoles}
+                initialMyLibero={game.myLibero}
+                initialOpLibero={game.opLibero}
+                initialMySecondLibero={game.mySecondLibero}
+                initialOpSecondLibero={game.opSecondLibero}
+                myScore={game.myScore}
+                opScore={game.opScore}
+                servingTeam={game.servingTeam}
+                logs={game.logs}
+                setResults={game.setResults}
+                setStartedAt={game.setStartedAt}
+                setFirstServer={game.setFirstServer}
+                myRotation={game.myRotation}
+                opRotation={game.opRotation}
+                history={history}
+                onEvent={dispatch}
                 onUndo={handleUndo}
                 onRedo={handleRedo}
                 onLoadGame={handleLoadGame}
                 onNewSet={handleNextSet}
-                canUndo={history.length > 0}
-                canRedo={future.length > 0}
+                canUndo={canUndo(history)}
+                canRedo={canRedo(history)}
                 onExit={handleHome}
                 onToggleFullScreen={toggleFullScreen}
             />
@@ -7,6 +7,8 @@ interface CourtProps {
   opLineup: Lineup;
   myRoles: RoleMapping;
   opRoles: RoleMapping;
+  myLiberoPos?: Position | null; // Position currently taken by the libero
+  opLiberoPos?: Position | null;
   state: 'IDLE' | 'PLAYER_SELECTED' | 'DRAWING' | 'RESULT_PENDING';
   activeSide?: TeamSide;
   selectedPos?: Position | 'L' | null;
@@ -19,7 +21,7 @@ type Point = { x: number, y: number };
 type DragMode = 'start' | 'end' | 'draw_new' | null;
 
 export const Court: React.FC<CourtProps> = ({ 
-    myLineup, opLineup, myRoles, opRoles, state, activeSide, selectedPos, action,
+    myLineup, opLineup, myRoles, opRoles, myLiberoPos, opLiberoPos, state, activeSide, selectedPos, action,
     onDrawingComplete, onRotate
 }) => {
   const svgRef = useRef<SVGSVGElement>(null);
@@ -190,6 +192,7 @@ export const Court: React.FC<CourtProps> = ({
                 const pos = p as Position;
                 const {x, y} = getPositionCenter('me', pos, true);
                 const num = myLineup[pos];
+                const isLibero = myLiberoPos === pos;
 
                 return (
                     <g key={`me-${p}`} className="pointer-events-none">
@@ -197,8 +200,8 @@ export const Court: React.FC<CourtProps> = ({
                             x={x} y={y + 0.2} 
                             textAnchor="middle" 
                             fontSize="0.5" 
-                            fill="white" 
-                            opacity="0.6" 
+                            fill={isLibero ? '#FACC15' : 'white'} 
+                            opacity={isLibero ? 0.9 : 0.6} 
                             fontWeight="900"
                             style={{ fontVariantNumeric: 'tabular-nums' }}
                         >
@@ -211,6 +214,7 @@ export const Court: React.FC<CourtProps> = ({
                 const pos = p as Position;
                 const {x, y} = getPositionCenter('op', pos, true);
                 const num = opLineup[pos];
+                const isLibero = opLiberoPos === pos;
 
                 return (
                     <g key={`op-${p}`} className="pointer-events-none">
@@ -218,8 +222,8 @@ export const Court: React.FC<CourtProps> = ({
                             x={x} y={y + 0.2} 
                             textAnchor="middle" 
                             fontSize="0.5" 
-                            fill="white" 
-                            opacity="0.6" 
+                            fill={isLibero ? '#FACC15' : 'white'} 
+                            opacity={isLibero ? 0.9 : 0.6} 
                             fontWeight="900"
                             style={{ fontVariantNumeric: 'tabular-nums' }}
                         >
@@ -1,11 +1,24 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { Lineup, TeamConfig, LogEntry, Position, ActionType, ActionQuality, ResultType, Coordinate, TeamSide, SavedGame, GameState, RoleMapping } from '../types';
+import { Lineup, TeamConfig, LogEntry, LogEntryInput, Position, ActionType, ActionQuality, ResultType, Coordinate, TeamSide, SavedGame, GameState, RoleMapping, PlayerRole, FaultType, MatchRules, SetResult, GameEvent, SavedHistory, TimelineEdit } from '../types';
 import { Court } from './Court';
 import { StatsOverlay } from './StatsOverlay';
+import { TimelineEditor } from './TimelineEditor';
+import { GameHistory, canApplyEdit, getHistoryState } from '../utils/engine';
+import { createSavedGame } from '../utils/autosave';
+import { getSetWinner, getMatchWinner, getSetTargetPoints, isMatchOver } from '../utils/matchRules';
+import { getSetSubstitutions, getSubPairs, validateSubstitution } from '../utils/substitutions';
+import { applyLibero, getLiberoPosition } from '../utils/libero';
+import { getSetTimeouts } from '../utils/timeouts';
+import { QUALITY_LEVELS, QUALITY_SYMBOLS } from '../utils/quality';
+import { ACTION_LABELS } from '../utils/logs';
+import { getOpenRallyId, getRallyIdFor } from '../utils/rally';
+import { formatZone, getCourtZone, getEndZone, getStartZone } from '../utils/zones';
+import { FAULT_LABELS, FAULT_TYPES } from '../utils/faults';
 
 interface GameViewProps {
   teamConfig: TeamConfig;
+  matchRules: MatchRules;
   currentSet: number;
   mySetWins: number;
   opSetWins: number;
@@ -15,19 +28,22 @@ interface GameViewProps {
   initialOpRoles: RoleMapping;
   initialMyLibero: string;
   initialOpLibero: string;
+  initialMySecondLibero: string;
+  initialOpSecondLibero: string;
   myScore: number;
   opScore: number;
   servingTeam: TeamSide;
   logs: LogEntry[];
-  onGameAction: (
-    newLog: LogEntry | null, 
-    scoreUpdate: { myDelta: number, opDelta: number } | null,
-    lineupUpdate: { isMyTeam: boolean, newLineup: Lineup, newLibero?: string } | null,
-    servingTeamUpdate: TeamSide | null
-  ) => void;
+  setResults: SetResult[];
+  setStartedAt: number;
+  setFirstServer: TeamSide;
+  myRotation: number;
+  opRotation: number;
+  history: GameHistory;
+  onEvent: (event: GameEvent) => void;
   onUndo: () => void;
   onRedo: () => void;
-  onLoadGame: (savedState: GameState, config: TeamConfig) => void;
+  onLoadGame: (savedState: GameState, config: TeamConfig, rules?: MatchRules, savedHistory?: SavedHistory) => void;
   onNewSet: () => void;
   canUndo: boolean;
   canRedo: boolean;
@@ -38,20 +54,14 @@ interface GameViewProps {
 // 狀態機定義
 type InteractionState = 'IDLE' | 'PLAYER_SELECTED' | 'DRAWING' | 'RESULT_PENDING';
 
-const SAVE_PREFIX = 'volleyscout_save_';
+// Sidebar slots: court positions, acting libero (L) and second libero (L2)
+type SidebarSlot = Position | 'L' | 'L2';
 
-// Action Dictionary for Chinese translation
-const ACTION_LABELS: Record<string, string> = {
-    [ActionType.SERVE]: '發球',
-    [ActionType.ATTACK]: '攻擊',
-    [ActionType.BLOCK]: '攔網',
-    [ActionType.DIG]: '接扣',
-    [ActionType.SET]: '舉球',
-    [ActionType.RECEIVE]: '接發',
-};
+const SAVE_PREFIX = 'volleyscout_save_';
 
 export const GameView: React.FC<GameViewProps> = ({
   teamConfig,
+  matchRules,
   currentSet,
   mySetWins,
   opSetWins,
@@ -61,11 +71,19 @@ export const GameView: React.FC<GameViewProps> = ({
   initialOpRoles,
   initialMyLibero,
   initialOpLibero,
+  initialMySecondLibero,
+  initialOpSecondLibero,
   myScore,
   opScore,
   servingTeam,
   logs,
-  onGameAction,
+  setResults,
+  setStartedAt,
+  setFirstServer,
+  myRotation,
+  opRotation,
+  history,
+  onEvent,
   onUndo,
   onRedo,
   onLoadGame,
@@ -80,11 +98,12 @@ export const GameView: React.FC<GameViewProps> = ({
   const [activeSide, setActiveSide] = useState<TeamSide>('me'); // 目前操作哪一邊
   const [selectedPos, setSelectedPos] = useState<Position | 'L' | null>(null);
   const [selectedAction, setSelectedAction] = useState<ActionType | null>(null);
+  const [selectedQuality, setSelectedQuality] = useState<ActionQuality>(ActionQuality.NORMAL);
   
   // Substitution State
   const [showSubModal, setShowSubModal] = useState(false);
   const [subNumber, setSubNumber] = useState('');
-  const [subTarget, setSubTarget] = useState<{side: TeamSide, pos: Position | 'L'} | null>(null);
+  const [subTarget, setSubTarget] = useState<{side: TeamSide, pos: SidebarSlot} | null>(null);
 
   // Score Adjustment Modal State
   const [scoreAdjTarget, setScoreAdjTarget] = useState<{side: TeamSide, anchor: DOMRect} | null>(null);
@@ -96,73 +115,161 @@ export const GameView: React.FC<GameViewProps> = ({
   // UI States
   const [showOptions, setShowOptions] = useState(false);
   const [showStats, setShowStats] = useState(false);
+  const [showTimeline, setShowTimeline] = useState(false);
   const [showSaveModal, setShowSaveModal] = useState(false);
   const [showLoadModal, setShowLoadModal] = useState(false);
   const [saveFileName, setSaveFileName] = useState('');
   const [savedFiles, setSavedFiles] = useState<{key: string, name: string, date: string}[]>([]);
   const [modalConfig, setModalConfig] = useState<{show: boolean, title: string, message: string, onConfirm?: () => void}>({show: false, title: '', message: ''});
+  const [setEndDismissed, setSetEndDismissed] = useState(false);
+  const [matchEndDismissed, setMatchEndDismissed] = useState(false);
 
   // Long Press Refs
   const longPressTimer = useRef<number | null>(null);
   const isLongPress = useRef(false);
 
-  // --- Helpers ---
-  const getRotatedLineup = (lineup: Lineup): Lineup => ({
-      1: lineup[2], 6: lineup[1], 5: lineup[6], 4: lineup[5], 3: lineup[4], 2: lineup[3],
-  });
+  // --- Set / Match End Detection ---
+  const setWinner = getSetWinner(matchRules, currentSet, myScore, opScore);
+  const matchWinner = getMatchWinner(matchRules, mySetWins, opSetWins);
+  const matchOver = isMatchOver(matchRules, mySetWins, opSetWins);
+  const isScoringLocked = setWinner !== null || matchOver;
+
+  // Re-open the set end prompt whenever the score changes (e.g. after an undo)
+  useEffect(() => {
+      setSetEndDismissed(false);
+  }, [myScore, opScore, currentSet]);
+
+  useEffect(() => {
+      setMatchEndDismissed(false);
+  }, [mySetWins, opSetWins]);
+
+  const getTeamName = (side: TeamSide) => side === 'me' ? teamConfig.myName : teamConfig.opName;
+
+  const showScoringLockedMessage = () => {
+      setModalConfig({
+          show: true,
+          title: matchOver ? '比賽已結束' : '本局已結束',
+          message: matchOver ? '無法再登錄得分' : '請確認進入下一局，或復原上一分'
+      });
+  };
+
+  const handleNextSetRequest = () => {
+      if (matchOver) {
+          showScoringLockedMessage();
+          return;
+      }
+      if (!setWinner) {
+          const target = getSetTargetPoints(matchRules, currentSet);
+          setModalConfig({ show: true, title: '本局尚未結束', message: `需先得 ${target} 分且領先 ${matchRules.winBy} 分` });
+          return;
+      }
+      onNewSet();
+  };
 
+  // --- Libero (auto replacement of the back-row MB) ---
+  const myLiberoPos = getLiberoPosition(initialMyLineup, initialMyRoles, initialMyLibero, servingTeam === 'me');
+  const opLiberoPos = getLiberoPosition(initialOpLineup, initialOpRoles, initialOpLibero, servingTeam === 'op');
+  const myCourtLineup = applyLibero(initialMyLineup, myLiberoPos, initialMyLibero);
+  const opCourtLineup = applyLibero(initialOpLineup, opLiberoPos, initialOpLibero);
+
+  // --- Helpers ---
+  // Scores, serve and rotations are applied by the game engine (utils/engine.ts)
   const handleRotation = (isMyTeam: boolean) => {
-    const currentLineup = isMyTeam ? initialMyLineup : initialOpLineup;
-    const newLineup = getRotatedLineup(currentLineup);
-    onGameAction(null, null, { isMyTeam, newLineup }, null);
+    onEvent({ type: 'ROTATE', side: isMyTeam ? 'me' : 'op', at: Date.now() });
   };
 
   const handleScoreAdjust = (isMyTeam: boolean, delta: number) => {
       // Manual score adjustment with negative check
       const currentScore = isMyTeam ? myScore : opScore;
       if (currentScore + delta < 0) return; // Prevent negative score
-
-      const scoreUpdate = { 
-          myDelta: isMyTeam ? delta : 0, 
-          opDelta: !isMyTeam ? delta : 0 
-      };
-      
-      let lineupUpdate = null;
-      let newServingTeam = null;
-
-      if (delta > 0) {
-        // Winning a point logic
-        const pointWinner = isMyTeam ? 'me' : 'op';
-        if (pointWinner !== servingTeam) {
-            newServingTeam = pointWinner as TeamSide;
-            const lineToRotate = pointWinner === 'me' ? initialMyLineup : initialOpLineup;
-            lineupUpdate = { isMyTeam: pointWinner === 'me', newLineup: getRotatedLineup(lineToRotate) };
-        }
+      if (delta > 0 && isScoringLocked) {
+          setScoreAdjTarget(null);
+          showScoringLockedMessage();
+          return;
       }
 
       // Create a manual log entry
-      const newLog: LogEntry = {
+      const entry: LogEntryInput = {
           id: Date.now().toString(),
           timestamp: Date.now(),
-          setNumber: currentSet,
-          myScore: isMyTeam ? myScore + delta : myScore,
-          opScore: !isMyTeam ? opScore + delta : opScore,
           playerNumber: '', 
           position: 1 as Position, 
-          action: ActionType.ATTACK, 
+          action: ActionType.ADJUST, 
           quality: ActionQuality.NORMAL,
           result: delta > 0 ? ResultType.POINT : ResultType.NORMAL,
           note: `Manual Adjust ${delta > 0 ? '+' : ''}${delta}`,
-          servingTeam: newServingTeam || servingTeam
+          team: isMyTeam ? 'me' : 'op',
+          // A point closes the open rally (or stands as a rally of its own)
+          rallyId: delta > 0 ? (getOpenRallyId(logs) ?? getRallyIdFor(logs, ActionType.SERVE)) : undefined
       };
 
-      onGameAction(newLog, scoreUpdate, lineupUpdate, newServingTeam);
+      onEvent({ type: 'RALLY', entry });
+  };
+
+  // --- Team / Official Error (no player): the faulting team loses the point ---
+  const handleTeamError = (faultSide: TeamSide, fault: FaultType) => {
+      setScoreAdjTarget(null);
+      if (isScoringLocked) {
+          showScoringLockedMessage();
+          return;
+      }
+
+      const entry: LogEntryInput = {
+          id: Date.now().toString(),
+          timestamp: Date.now(),
+          playerNumber: '',
+          position: 1 as Position,
+          action: ActionType.TEAM_ERROR,
+          quality: ActionQuality.NORMAL,
+          result: ResultType.ERROR,
+          fault,
+          team: faultSide,
+          rallyId: getOpenRallyId(logs) ?? getRallyIdFor(logs, ActionType.SERVE)
+      };
+
+      onEvent({ type: 'RALLY', entry });
+  };
+
+  // --- Timeout ---
+  const handleTimeout = (side: TeamSide) => {
+      if (matchOver) {
+          showScoringLockedMessage();
+          return;
+      }
+      const used = getSetTimeouts(logs, currentSet, side).length;
+      if (used >= matchRules.timeoutsPerSet) {
+          setModalConfig({ show: true, title: '無法暫停', message: `${getTeamName(side)} 本局暫停次數已達上限 (${matchRules.timeoutsPerSet})` });
+          return;
+      }
+
+      const entry: LogEntryInput = {
+          id: Date.now().toString(),
+          timestamp: Date.now(),
+          playerNumber: '',
+          position: 1 as Position,
+          action: ActionType.TIMEOUT,
+          quality: ActionQuality.NORMAL,
+          result: ResultType.NORMAL,
+          team: side
+      };
+
+      onEvent({ type: 'TIMEOUT', entry });
+  };
+
+  const handleTimelineEdit = (edit: TimelineEdit) => {
+      if (!canApplyEdit(getHistoryState(history, matchRules), edit, matchRules)) {
+          setModalConfig({ show: true, title: '無法修改', message: '修改後已結束的局將沒有勝負，或會改變比賽結果' });
+          return;
+      }
+      onEvent({ type: 'EDIT', edit });
   };
 
   const handleExportCSV = () => {
     // BOM for Excel to read UTF-8 correctly
     const BOM = '\uFEFF';
-    const headers = ['Set', 'Timestamp', 'Score (My)', 'Score (Op)', 'Serving', 'Player', 'Position', 'Action', 'Result', 'Note'];
+    // Every field is quoted (with embedded quotes doubled) so commas and line breaks in names and notes stay in their column
+    const toField = (value: string | number) => `"${String(value).replace(/"/g, '""')}"`;
+    const headers = ['Set', 'Rally', 'Timestamp', 'Score (My)', 'Score (Op)', 'Serving', 'Team', 'Player', 'Role', 'Sub Out', 'Position', 'Action', 'Quality', 'Result', 'Fault', 'Start Zone', 'End Zone', 'Rotation (My)', 'Rotation (Op)', 'Court (My)', 'Court (Op)', 'Note'];
     
     const rows = logs.map(log => {
       const time = new Date(log.timestamp).toLocaleTimeString('zh-TW', {hour12: false});
@@ -171,19 +278,31 @@ export const GameView: React.FC<GameViewProps> = ({
       
       return [
         log.setNumber,
+        log.rallyId ?? '',
         time,
         log.myScore,
         log.opScore,
         serving,
+        getTeamName(log.team),
         log.playerNumber,
-        log.position,
+        log.playerRole || '',
+        log.subOut || '',
+        log.playerNumber ? log.position : '',
         actionName,
+        QUALITY_SYMBOLS[log.quality] || '',
         log.result,
+        log.fault ? FAULT_LABELS[log.fault] : '',
+        formatZone(getStartZone(log)),
+        formatZone(getEndZone(log)),
+        log.court?.rotation.me ?? '',
+        log.court?.rotation.op ?? '',
+        log.court?.lineups.me.join('/') ?? '',
+        log.court?.lineups.op.join('/') ?? '',
         log.note || ''
-      ].join(',');
+      ].map(toField).join(',');
     });
 
-    const csvContent = BOM + [headers.join(','), ...rows].join('\n');
+    const csvContent = BOM + [headers.map(toField).join(','), ...rows].join('\n');
     const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
     const url = URL.createObjectURL(blob);
     
@@ -200,13 +319,14 @@ export const GameView: React.FC<GameViewProps> = ({
     setState('IDLE');
     setSelectedPos(null);
     setSelectedAction(null);
+    setSelectedQuality(ActionQuality.NORMAL);
     setStartCoord(null);
     setEndCoord(null);
     setScoreAdjTarget(null);
   };
 
   // --- Input Handlers (Sidebar) ---
-  const handlePlayerDown = (side: TeamSide, pos: Position | 'L') => {
+  const handlePlayerDown = (side: TeamSide, pos: SidebarSlot) => {
     isLongPress.current = false;
     longPressTimer.current = window.setTimeout(() => {
         isLongPress.current = true;
@@ -217,14 +337,15 @@ export const GameView: React.FC<GameViewProps> = ({
     }, 1500); // 1.5s long press
   };
 
-  const handlePlayerUp = (side: TeamSide, pos: Position | 'L') => {
+  const handlePlayerUp = (side: TeamSide, pos: SidebarSlot) => {
       if (longPressTimer.current) {
           clearTimeout(longPressTimer.current);
           longPressTimer.current = null;
       }
       if (!isLongPress.current) {
-          // Normal Click
-          handlePlayerSelect(side, pos);
+          // Normal Click (tapping the second libero swaps the two liberos)
+          if (pos === 'L2') handleLiberoSwap(side);
+          else handlePlayerSelect(side, pos);
       }
   };
 
@@ -241,6 +362,30 @@ export const GameView: React.FC<GameViewProps> = ({
     setEndCoord(null);
   };
 
+  // --- Libero Swap (acting libero <-> second libero) ---
+  const handleLiberoSwap = (side: TeamSide) => {
+      const isMyTeam = side === 'me';
+      const acting = isMyTeam ? initialMyLibero : initialOpLibero;
+      const second = isMyTeam ? initialMySecondLibero : initialOpSecondLibero;
+      if (!second) return;
+
+      const liberoPos = isMyTeam ? myLiberoPos : opLiberoPos;
+      const entry: LogEntryInput | undefined = acting ? {
+          id: Date.now().toString(),
+          timestamp: Date.now(),
+          playerNumber: second,
+          subOut: acting,
+          position: liberoPos ?? 'L',
+          action: ActionType.LIBERO,
+          quality: ActionQuality.NORMAL,
+          result: ResultType.NORMAL,
+          liberoChange: 'SWAP',
+          team: side
+      } : undefined;
+
+      onEvent({ type: 'LIBERO', side, at: Date.now(), libero: second, secondLibero: acting, entry });
+  };
+
   // --- Substitution Confirm ---
   const handleSubConfirm = () => {
       if (!subTarget || !subNumber.trim()) {
@@ -250,30 +395,70 @@ export const GameView: React.FC<GameViewProps> = ({
 
       const isMyTeam = subTarget.side === 'me';
       const currentLineup = isMyTeam ? { ...initialMyLineup } : { ...initialOpLineup };
-      let newLiberoVal = undefined;
-
-      if (subTarget.pos === 'L') {
-          newLiberoVal = subNumber;
-      } else {
-          // Fix: Type casting to ensure TS knows this key exists on Lineup
-          const posIndex = subTarget.pos as Position;
-          currentLineup[posIndex] = subNumber;
+      const incoming = subNumber.trim();
+
+      if (subTarget.pos === 'L' || subTarget.pos === 'L2') {
+          // Changing a designated libero is not a substitution (no log)
+          const liberoUpdate = subTarget.pos === 'L' ? { libero: incoming } : { secondLibero: incoming };
+          onEvent({ type: 'LIBERO', side: subTarget.side, at: Date.now(), ...liberoUpdate });
+          setShowSubModal(false);
+          setSubTarget(null);
+          return;
       }
 
-      // Update state via onGameAction (no log, just update)
-      onGameAction(
-          null, 
-          null, 
-          { 
-              isMyTeam, 
-              newLineup: currentLineup, 
-              newLibero: newLiberoVal 
-          }, 
-          null
-      );
+      // Fix: Type casting to ensure TS knows this key exists on Lineup
+      const posIndex = subTarget.pos as Position;
+      const outgoing = currentLineup[posIndex];
+      const liberos = isMyTeam ? [initialMyLibero, initialMySecondLibero] : [initialOpLibero, initialOpSecondLibero];
+
+      if (incoming === outgoing) {
+          setShowSubModal(false);
+          setSubTarget(null);
+          return;
+      }
+      if (Object.values(currentLineup).includes(incoming)) {
+          setModalConfig({ show: true, title: '無法換人', message: `#${incoming} 已在場上` });
+          return;
+      }
+      // Designated liberos (acting or second) only enter through libero replacements
+      if (liberos.includes(incoming)) {
+          setModalConfig({ show: true, title: '無法換人', message: `#${incoming} 是自由球員，不能一般換人` });
+          return;
+      }
+
+      const setSubs = getSetSubstitutions(logs, currentSet, subTarget.side);
+      const usedSubs = setSubs.length;
+      if (usedSubs >= matchRules.subsPerSet) {
+          setModalConfig({ show: true, title: '無法換人', message: `本局換人次數已達上限 (${matchRules.subsPerSet})` });
+          return;
+      }
+
+      const pairingError = validateSubstitution(getSubPairs(setSubs), currentLineup, incoming, outgoing);
+      if (pairingError) {
+          setModalConfig({ show: true, title: '換人不合規則', message: pairingError });
+          return;
+      }
+
+      const entry: LogEntryInput = {
+          id: Date.now().toString(),
+          timestamp: Date.now(),
+          playerNumber: incoming,
+          subOut: outgoing,
+          position: posIndex,
+          action: ActionType.SUB,
+          quality: ActionQuality.NORMAL,
+          result: ResultType.NORMAL,
+          team: subTarget.side
+      };
+
+      onEvent({ type: 'SUB', entry });
       
       setShowSubModal(false);
       setSubTarget(null);
+
+      if (usedSubs + 1 >= matchRules.subsPerSet) {
+          setModalConfig({ show: true, title: '換人次數已達上限', message: `${getTeamName(subTarget.side)} 本局已換人 ${usedSubs + 1}/${matchRules.subsPerSet} 次` });
+      }
   };
 
   // --- Step 2: Action Selected (from Modal) ---
@@ -293,69 +478,44 @@ export const GameView: React.FC<GameViewProps> = ({
   // --- Step 4: Result (Right Panel) ---
   const handleResult = (result: ResultType) => {
     if (!selectedPos || !selectedAction) return;
+    if (result !== ResultType.NORMAL && isScoringLocked) {
+        resetFlow();
+        showScoringLockedMessage();
+        return;
+    }
 
     const isMyTeam = activeSide === 'me';
-    const lineup = isMyTeam ? initialMyLineup : initialOpLineup;
+    const lineup = isMyTeam ? myCourtLineup : opCourtLineup;
     
     // Handle Libero number retrieval
     // Logic: If 'L', get libero number. If Position (number), get from lineup.
     const playerNumber = selectedPos === 'L' 
         ? (isMyTeam ? initialMyLibero : initialOpLibero) 
         : (selectedPos ? lineup[selectedPos as Position] : '?');
+    const liberoPos = isMyTeam ? myLiberoPos : opLiberoPos;
+    const playerRole: PlayerRole = selectedPos === 'L' || selectedPos === liberoPos
+        ? 'L'
+        : (isMyTeam ? initialMyRoles : initialOpRoles)[selectedPos as Position];
 
-    let scoreUpdate: { myDelta: number, opDelta: number } | null = null;
-    let newServingTeam: TeamSide | null = null;
-    let lineupUpdate = null;
-
-    if (result === ResultType.POINT) {
-        // Point: The team that executed the action wins the point
-        scoreUpdate = { 
-            myDelta: isMyTeam ? 1 : 0, 
-            opDelta: !isMyTeam ? 1 : 0 
-        }; 
-        
-        const pointWinner = isMyTeam ? 'me' : 'op';
-        if (pointWinner !== servingTeam) {
-            newServingTeam = pointWinner;
-            const lineToRotate = pointWinner === 'me' ? initialMyLineup : initialOpLineup;
-            lineupUpdate = { isMyTeam: pointWinner === 'me', newLineup: getRotatedLineup(lineToRotate) };
-        }
-    } else if (result === ResultType.ERROR) {
-        // Error: The OPPOSING team wins the point
-        scoreUpdate = { 
-            myDelta: !isMyTeam ? 1 : 0, 
-            opDelta: isMyTeam ? 1 : 0 
-        };
-        
-        const pointWinner = !isMyTeam ? 'me' : 'op';
-        if (pointWinner !== servingTeam) {
-            newServingTeam = pointWinner;
-            const lineToRotate = pointWinner === 'me' ? initialMyLineup : initialOpLineup;
-            lineupUpdate = { isMyTeam: pointWinner === 'me', newLineup: getRotatedLineup(lineToRotate) };
-        }
-    }
-
-    const nextMyScore = scoreUpdate ? myScore + scoreUpdate.myDelta : myScore;
-    const nextOpScore = scoreUpdate ? opScore + scoreUpdate.opDelta : opScore;
-
-    const newLog: LogEntry = {
+    // Point: the acting team scores, Error: the opposing team scores (applied by the engine)
+    const entry: LogEntryInput = {
       id: Date.now().toString(),
       timestamp: Date.now(),
-      setNumber: currentSet,
-      myScore: nextMyScore,
-      opScore: nextOpScore,
       playerNumber,
+      playerRole,
       position: selectedPos,
       action: selectedAction,
-      quality: ActionQuality.NORMAL, // 簡化流程，預設 Normal
+      quality: selectedQuality, // 未評分時為 Normal (!)
       result: result,
       startCoord: startCoord || undefined,
       endCoord: endCoord || undefined,
-      note: isMyTeam ? teamConfig.myName : teamConfig.opName,
-      servingTeam: newServingTeam || servingTeam
+      startZone: startCoord ? getCourtZone(startCoord) : undefined,
+      endZone: endCoord ? getCourtZone(endCoord) : undefined,
+      rallyId: getRallyIdFor(logs, selectedAction),
+      team: activeSide
     };
 
-    onGameAction(newLog, scoreUpdate, lineupUpdate, newServingTeam);
+    onEvent({ type: 'RALLY', entry });
     resetFlow();
   };
 
@@ -368,17 +528,15 @@ export const GameView: React.FC<GameViewProps> = ({
   };
 
   const handleConfirmSave = () => {
-    const saveObject: SavedGame = {
-      config: teamConfig,
-      state: { 
-          currentSet, mySetWins, opSetWins, 
-          myLineup: initialMyLineup, opLineup: initialOpLineup, 
-          myRoles: initialMyRoles, opRoles: initialOpRoles, 
-          myLibero: initialMyLibero, opLibero: initialOpLibero,
-          myScore, opScore, servingTeam, logs 
-      },
-      savedAt: Date.now()
-    };
+    const saveObject: SavedGame = createSavedGame(teamConfig, matchRules, { 
+        currentSet, mySetWins, opSetWins, 
+        myLineup: initialMyLineup, opLineup: initialOpLineup, 
+        myRoles: initialMyRoles, opRoles: initialOpRoles, 
+        myLibero: initialMyLibero, opLibero: initialOpLibero,
+        mySecondLibero: initialMySecondLibero, opSecondLibero: initialOpSecondLibero,
+        myScore, opScore, servingTeam, logs,
+        setResults, setStartedAt, setFirstServer, myRotation, opRotation
+    }, history);
     try {
       localStorage.setItem(`${SAVE_PREFIX}${saveFileName.trim()}`, JSON.stringify(saveObject));
       setShowSaveModal(false);
@@ -407,7 +565,7 @@ export const GameView: React.FC<GameViewProps> = ({
       if (data) {
           try {
             const parsed = JSON.parse(data);
-            onLoadGame(parsed.state, parsed.config);
+            onLoadGame(parsed.state, parsed.config, parsed.rules, parsed.history);
             setShowLoadModal(false);
             setShowOptions(false);
           } catch (e) {
@@ -442,6 +600,29 @@ export const GameView: React.FC<GameViewProps> = ({
       );
   };
 
+  // Timeout Button (dots = timeouts remaining this set)
+  const TimeoutBtn = ({ side }: { side: TeamSide }) => {
+      const remaining = Math.max(0, matchRules.timeoutsPerSet - getSetTimeouts(logs, currentSet, side).length);
+      const dotColor = side === 'me' ? 'bg-accent' : 'bg-red-500';
+
+      return (
+        <button
+            onClick={() => handleTimeout(side)}
+            className={`h-full w-[24px] md:w-[30px] shrink-0 flex flex-col items-center justify-center gap-1 rounded-md bg-neutral-900 border border-neutral-600 active:translate-y-[1px] transition-transform ${remaining === 0 ? 'opacity-40' : ''}`}
+        >
+            <div className="flex flex-col font-black leading-none text-gray-300 text-[10px] md:text-xs">
+                <span>暫</span>
+                <span>停</span>
+            </div>
+            <div className="flex flex-col gap-0.5">
+                {Array.from({ length: matchRules.timeoutsPerSet }, (_, i) => (
+                    <span key={i} className={`w-1.5 h-1.5 rounded-full ${i < remaining ? dotColor : 'bg-neutral-700'}`}></span>
+                ))}
+            </div>
+        </button>
+      );
+  };
+
   // Compact Header Button
   const HeaderBtn = ({ onClick, children, disabled = false, color = 'neutral' }: any) => {
       const bgColors: any = {
@@ -498,6 +679,12 @@ export const GameView: React.FC<GameViewProps> = ({
                   desc="攻守與落點分析" 
                   onClick={() => { setShowStats(true); setShowOptions(false); }} 
               />
+              <OptionBtn 
+                  icon="🕒" 
+                  title="時間軸" 
+                  desc="修正本局紀錄" 
+                  onClick={() => { setShowTimeline(true); setShowOptions(false); }} 
+              />
               <OptionBtn 
                   icon="📤" 
                   title="匯出 CSV" 
@@ -527,7 +714,7 @@ export const GameView: React.FC<GameViewProps> = ({
                   title="Next Set" 
                   desc="結束本局" 
                   color="purple"
-                  onClick={() => { onNewSet(); setShowOptions(false); }} 
+                  onClick={() => { handleNextSetRequest(); setShowOptions(false); }} 
               />
               <OptionBtn 
                   icon="🏠" 
@@ -573,16 +760,65 @@ export const GameView: React.FC<GameViewProps> = ({
                         -
                     </button>
                 </div>
+                <div className="text-white text-xs font-bold text-center mt-1">對方失誤</div>
+                <div className="grid grid-cols-3 gap-1 w-[6.5rem]">
+                    {FAULT_TYPES.map(fault => (
+                        <button 
+                            key={fault}
+                            onClick={() => handleTeamError(isMyTeam ? 'op' : 'me', fault)}
+                            className="py-1.5 bg-neutral-700 hover:bg-neutral-600 rounded text-[10px] font-bold text-gray-200 active:scale-95"
+                        >
+                            {FAULT_LABELS[fault]}
+                        </button>
+                    ))}
+                </div>
                 <button onClick={() => setScoreAdjTarget(null)} className="mt-1 w-full py-2 bg-neutral-700 hover:bg-neutral-600 rounded text-xs font-bold text-gray-300">確認</button>
             </div>
           </>
       );
   };
   
+  // Set / Match End Prompt
+  const renderSetEndModal = () => {
+      if (matchOver) {
+          if (matchEndDismissed) return null;
+          return (
+              <div className="absolute inset-0 z-[90] bg-black/80 flex items-center justify-center animate-fade-in">
+                  <div className="bg-neutral-800 p-6 rounded-2xl w-72 shadow-xl border border-neutral-700 text-center">
+                      <div className="text-4xl mb-2">🏆</div>
+                      <h3 className="text-white font-black text-xl mb-1">比賽結束</h3>
+                      <p className="text-gray-400 text-sm mb-1">{matchWinner ? `${getTeamName(matchWinner)} 獲勝` : '雙方平手'}</p>
+                      <p className="text-white font-black text-3xl mb-4">{mySetWins} - {opSetWins}</p>
+                      <div className="flex gap-2">
+                          <button onClick={() => setMatchEndDismissed(true)} className="flex-1 py-3 rounded-lg font-bold bg-neutral-700 text-gray-300">關閉</button>
+                          <button onClick={() => { setShowStats(true); setMatchEndDismissed(true); }} className="flex-1 py-3 rounded-lg font-bold bg-accent text-white">數據統計</button>
+                      </div>
+                  </div>
+              </div>
+          );
+      }
+
+      if (!setWinner || setEndDismissed) return null;
+      return (
+          <div className="absolute inset-0 z-[90] bg-black/80 flex items-center justify-center animate-fade-in">
+              <div className="bg-neutral-800 p-6 rounded-2xl w-72 shadow-xl border border-neutral-700 text-center">
+                  <h3 className="text-white font-black text-xl mb-1">第 {currentSet} 局結束</h3>
+                  <p className="text-gray-400 text-sm mb-1">{getTeamName(setWinner)} 拿下本局</p>
+                  <p className="text-white font-black text-3xl mb-4">{myScore} - {opScore}</p>
+                  <div className="flex gap-2">
+                      <button onClick={() => { setSetEndDismissed(true); onUndo(); }} disabled={!canUndo} className="flex-1 py-3 rounded-lg font-bold bg-neutral-700 text-gray-300 disabled:opacity-30">復原</button>
+                      <button onClick={() => setSetEndDismissed(true)} className="flex-1 py-3 rounded-lg font-bold bg-neutral-700 text-gray-300">稍後</button>
+                      <button onClick={onNewSet} className="flex-1 py-3 rounded-lg font-bold bg-purple-600 text-white">確認</button>
+                  </div>
+              </div>
+          </div>
+      );
+  };
+
   // ... Action Picker, Sub Modal, Sidebar helpers remain same ...
   const renderActionModal = () => {
     if (state !== 'PLAYER_SELECTED') return null;
-    const lineup = activeSide === 'me' ? initialMyLineup : initialOpLineup;
+    const lineup = activeSide === 'me' ? myCourtLineup : opCourtLineup;
     const playerNum = selectedPos === 'L' 
         ? (activeSide === 'me' ? initialMyLibero : initialOpLibero)
         : (selectedPos ? lineup[selectedPos] : '?');
@@ -610,11 +846,26 @@ export const GameView: React.FC<GameViewProps> = ({
 
   const renderSubModal = () => {
       if (!showSubModal || !subTarget) return null;
+      const setSubs = getSetSubstitutions(logs, currentSet, subTarget.side);
+      const usedSubs = setSubs.length;
+      const lineup = subTarget.side === 'me' ? initialMyLineup : initialOpLineup;
+      // Substitute on court: only their starter may replace them
+      const isLiberoSlot = subTarget.pos === 'L' || subTarget.pos === 'L2';
+      const returningStarter = !isLiberoSlot
+          ? getSubPairs(setSubs).find(p => !p.returned && p.substitute === lineup[subTarget.pos as Position])?.starter
+          : undefined;
       return (
         <div className="absolute inset-0 z-[60] bg-black/80 flex items-center justify-center animate-fade-in">
             <div className="bg-neutral-800 p-6 rounded-2xl w-64 shadow-xl border border-neutral-700">
                 <h3 className="text-white font-bold text-lg text-center mb-1">球員換人</h3>
-                <p className="text-gray-400 text-xs text-center mb-4">更改 {subTarget.side === 'me' ? '我方' : '對方'} P{subTarget.pos} 的背號</p>
+                <p className="text-gray-400 text-xs text-center mb-1">更改 {subTarget.side === 'me' ? '我方' : '對方'} P{subTarget.pos} 的背號</p>
+                {!isLiberoSlot && (
+                    <p className={`text-xs text-center font-bold mb-4 ${usedSubs >= matchRules.subsPerSet ? 'text-red-400' : 'text-gray-500'}`}>本局換人 {usedSubs}/{matchRules.subsPerSet}</p>
+                )}
+                {returningStarter && (
+                    <p className="text-yellow-400 text-xs text-center font-bold -mt-3 mb-4">只能由先發 #{returningStarter} 換回</p>
+                )}
+                {isLiberoSlot && <div className="mb-3"></div>}
                 <input type="tel" autoFocus value={subNumber} onChange={(e) => setSubNumber(e.target.value)} className="w-full text-center text-3xl font-black bg-neutral-900 border border-neutral-600 rounded-lg py-3 text-white mb-4 focus:border-accent focus:outline-none" placeholder="#" />
                 <div className="flex gap-2">
                     <button onClick={() => setShowSubModal(false)} className="flex-1 py-3 rounded-lg font-bold bg-neutral-700 text-gray-300">取消</button>
@@ -625,19 +876,19 @@ export const GameView: React.FC<GameViewProps> = ({
       );
   }
 
-  const renderSidebarItem = (side: TeamSide, pos: string | 'L', num: string) => {
+  const renderSidebarItem = (side: TeamSide, pos: string | 'L' | 'L2', num: string) => {
       // Fix: Strictly check types or convert to string for comparison to avoid TS build errors
       const isActive = activeSide === side && String(selectedPos) === pos;
-      const isLibero = pos === 'L';
+      const liberoPos = side === 'me' ? myLiberoPos : opLiberoPos;
+      const isLibero = pos === 'L' || pos === 'L2' || String(liberoPos) === pos;
+      const slot: SidebarSlot = pos === 'L' || pos === 'L2' ? pos : parseInt(pos) as Position;
       
       const handleTouchOrClick = () => {
-         const numericPos = pos === 'L' ? 'L' : parseInt(pos) as Position;
-         handlePlayerDown(side, numericPos);
+         handlePlayerDown(side, slot);
       };
 
       const handleRelease = () => {
-          const numericPos = pos === 'L' ? 'L' : parseInt(pos) as Position;
-          handlePlayerUp(side, numericPos);
+          handlePlayerUp(side, slot);
       }
 
       return (
@@ -673,15 +924,25 @@ export const GameView: React.FC<GameViewProps> = ({
             >
                 <div className="flex-1 flex flex-col items-center py-1 px-0.5 border-r border-neutral-700/50 bg-neutral-800/50 overflow-y-auto no-scrollbar pt-2">
                     <div className="text-accent font-bold mb-0.5 text-xs md:text-sm">我方</div>
-                    {Object.entries(initialMyLineup).map(([pos, num]) => renderSidebarItem('me', pos, num as string))}
-                    <div className="my-0.5 w-full h-[1px] bg-white/10"></div>
-                    {renderSidebarItem('me', 'L', initialMyLibero)}
+                    {Object.entries(myCourtLineup).map(([pos, num]) => renderSidebarItem('me', pos, num as string))}
+                    {matchRules.liberoEnabled && (
+                        <>
+                            <div className="my-0.5 w-full h-[1px] bg-white/10"></div>
+                            {renderSidebarItem('me', 'L', initialMyLibero)}
+                            {initialMySecondLibero && renderSidebarItem('me', 'L2', initialMySecondLibero)}
+                        </>
+                    )}
                 </div>
                 <div className="flex-1 flex flex-col items-center py-1 px-0.5 overflow-y-auto no-scrollbar pt-2">
                     <div className="text-red-500 font-bold mb-0.5 text-xs md:text-sm">對手</div>
-                    {Object.entries(initialOpLineup).map(([pos, num]) => renderSidebarItem('op', pos, num as string))}
-                    <div className="my-0.5 w-full h-[1px] bg-white/10"></div>
-                    {renderSidebarItem('op', 'L', initialOpLibero)}
+                    {Object.entries(opCourtLineup).map(([pos, num]) => renderSidebarItem('op', pos, num as string))}
+                    {matchRules.liberoEnabled && (
+                        <>
+                            <div className="my-0.5 w-full h-[1px] bg-white/10"></div>
+                            {renderSidebarItem('op', 'L', initialOpLibero)}
+                            {initialOpSecondLibero && renderSidebarItem('op', 'L2', initialOpSecondLibero)}
+                        </>
+                    )}
                 </div>
             </div>
 
@@ -711,7 +972,8 @@ export const GameView: React.FC<GameViewProps> = ({
                             </span>
                          </div>
                          
-                         {/* My Score */}
+                         {/* My Timeouts + Score */}
+                         <TimeoutBtn side="me" />
                          <BigScoreCard score={myScore} side="me" />
                          
                          {/* Sets Info */}
@@ -724,8 +986,9 @@ export const GameView: React.FC<GameViewProps> = ({
                             </div>
                         </div>
 
-                         {/* Op Score */}
+                         {/* Op Score + Timeouts */}
                          <BigScoreCard score={opScore} side="op" />
+                         <TimeoutBtn side="op" />
 
                          {/* Op Name */}
                          <div className="flex flex-col items-start justify-center min-w-0 flex-1">
@@ -736,6 +999,19 @@ export const GameView: React.FC<GameViewProps> = ({
                          </div>
                     </div>
 
+                    {/* Completed Set Scores */}
+                    {setResults.length > 0 && (
+                        <div className="absolute bottom-0.5 left-1/2 -translate-x-1/2 flex gap-1 pointer-events-none">
+                            {setResults.map(r => (
+                                <span key={r.setNumber} className="font-mono font-bold text-[9px] md:text-[10px] leading-none px-1 rounded bg-neutral-900/80">
+                                    <span className={r.winner === 'me' ? 'text-accent' : 'text-gray-500'}>{r.myScore}</span>
+                                    <span className="text-gray-600">-</span>
+                                    <span className={r.winner === 'op' ? 'text-red-500' : 'text-gray-500'}>{r.opScore}</span>
+                                </span>
+                            ))}
+                        </div>
+                    )}
+
                     {/* RIGHT BUTTONS */}
                     <div className="flex gap-1 pl-2">
                         <HeaderBtn onClick={onRedo} disabled={!canRedo} color="neutral">
@@ -759,8 +1035,10 @@ export const GameView: React.FC<GameViewProps> = ({
                             </div>
                         )}
                         <Court 
-                            myLineup={initialMyLineup}
-                            opLineup={initialOpLineup}
+                            myLineup={myCourtLineup}
+                            opLineup={opCourtLineup}
+                            myLiberoPos={myLiberoPos}
+                            opLiberoPos={opLiberoPos}
                             myRoles={initialMyRoles}
                             opRoles={initialOpRoles}
                             state={state}
@@ -779,6 +1057,20 @@ export const GameView: React.FC<GameViewProps> = ({
                 className="bg-neutral-800 border-l border-neutral-700 flex flex-col shrink-0 z-20 pb-[env(safe-area-inset-bottom)] pr-[env(safe-area-inset-right)] w-[10%] min-w-[56px]"
             >
                 <div className="flex-1 flex flex-col pt-2 h-full">
+                    {/* Quality (optional, graded before choosing the result) */}
+                    <div className="grid grid-cols-2 gap-0.5 px-0.5 pb-1 border-b border-neutral-700 shrink-0">
+                        {QUALITY_LEVELS.map(quality => (
+                            <button
+                                key={quality}
+                                onClick={() => setSelectedQuality(quality)}
+                                disabled={state !== 'RESULT_PENDING'}
+                                className={`py-1 rounded font-black text-sm md:text-base transition-colors disabled:opacity-30 disabled:cursor-not-allowed
+                                    ${state === 'RESULT_PENDING' && selectedQuality === quality ? 'bg-yellow-400 text-black' : 'bg-neutral-700 text-gray-300'}`}
+                            >
+                                {QUALITY_SYMBOLS[quality]}
+                            </button>
+                        ))}
+                    </div>
                     <div className="flex-1 flex flex-col min-h-0">
                         <button onClick={() => handleResult(ResultType.POINT)} disabled={state !== 'RESULT_PENDING'} className={`flex-1 min-h-0 flex flex-col items-center justify-center border-b border-neutral-700 transition-all gap-1 ${state === 'RESULT_PENDING' ? 'bg-emerald-600 text-white opacity-100 hover:bg-emerald-500' : 'bg-neutral-800 text-gray-600 opacity-40 cursor-not-allowed'}`}>
                             <div className="flex flex-col font-black leading-tight text-xl md:text-2xl">
@@ -813,19 +1105,31 @@ export const GameView: React.FC<GameViewProps> = ({
             {renderActionModal()}
             {renderSubModal()}
             {renderScoreAdjModal()}
+            {renderSetEndModal()}
             {showOptions && renderOptionsMenu()}
             {showStats && (
                 <StatsOverlay 
                     logs={logs} 
                     teamConfig={teamConfig} 
+                    matchRules={matchRules}
                     myScore={myScore} 
                     opScore={opScore} 
                     mySetWins={mySetWins} 
                     opSetWins={opSetWins} 
+                    setResults={setResults}
+                    setFirstServer={setFirstServer}
                     currentSet={currentSet} 
                     onBack={() => setShowStats(false)} 
                 />
             )}
+            {showTimeline && (
+                <TimelineEditor
+                    logs={logs}
+                    teamConfig={teamConfig}
+                    onEdit={handleTimelineEdit}
+                    onBack={() => setShowTimeline(false)}
+                />
+            )}
             {/* Save/Load Modals ... (Rest of code is identical) */}
             {showSaveModal && (
                 <div className="absolute inset-0 z-[110] bg-black/80 flex items-center justify-center">
@@ -1,21 +1,28 @@
 
 import React, { useState, useEffect } from 'react';
-import { Lineup, TeamConfig, Position, TeamSide, PlayerRole, RoleMapping } from '../types';
+import { Lineup, TeamConfig, Position, TeamSide, PlayerRole, RoleMapping, MatchRules, RulesPreset, SavedGame } from '../types';
+import { DEFAULT_MATCH_RULES, MATCH_RULE_PRESETS, RULE_PRESET_LABELS, describeRules } from '../utils/matchRules';
 
 interface SetupViewProps {
   initialConfig?: TeamConfig;
+  initialRules?: MatchRules;
   initialMyLineup?: Lineup;
   initialOpLineup?: Lineup;
   initialMyRoles?: RoleMapping;
   initialOpRoles?: RoleMapping;
   initialMyLibero?: string;
   initialOpLibero?: string;
-  onStart: (config: TeamConfig, myLineup: Lineup, opLineup: Lineup, myRoles: RoleMapping, opRoles: RoleMapping, myLibero: string, opLibero: string, firstServe: TeamSide) => void;
+  initialMySecondLibero?: string;
+  initialOpSecondLibero?: string;
+  onStart: (config: TeamConfig, myLineup: Lineup, opLineup: Lineup, myRoles: RoleMapping, opRoles: RoleMapping, myLibero: string, opLibero: string, firstServe: TeamSide, rules: MatchRules, mySecondLibero: string, opSecondLibero: string) => void;
   onInstallApp?: () => void;
   onToggleFullScreen?: () => void;
   isGameActive: boolean;
   onResume: () => void;
   onNewMatch: () => void;
+  unfinishedMatch?: SavedGame | null; // Autosaved match from a previous session
+  onResumeUnfinished?: () => void;
+  onDiscardUnfinished?: () => void;
 }
 
 const ROLES: {code: PlayerRole, label: string, short: string, color: string, textColor: string}[] = [
@@ -33,23 +40,30 @@ const createEmptyRoles = (): RoleMapping => ({ 1: '?', 2: '?', 3: '?', 4: '?', 5
 
 export const SetupView: React.FC<SetupViewProps> = ({ 
   initialConfig, 
+  initialRules,
   initialMyLineup, 
   initialOpLineup, 
   initialMyRoles,
   initialOpRoles,
   initialMyLibero,
   initialOpLibero,
+  initialMySecondLibero,
+  initialOpSecondLibero,
   onStart,
   onInstallApp,
   onToggleFullScreen,
   isGameActive,
   onResume,
-  onNewMatch
+  onNewMatch,
+  unfinishedMatch,
+  onResumeUnfinished,
+  onDiscardUnfinished
 }) => {
   const [matchName, setMatchName] = useState(initialConfig?.matchName || '');
   const [myName, setMyName] = useState(initialConfig?.myName || ''); 
   const [opName, setOpName] = useState(initialConfig?.opName || '');
   const [firstServe, setFirstServe] = useState<TeamSide>('me');
+  const [rules, setRules] = useState<MatchRules>(initialRules || DEFAULT_MATCH_RULES);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
   
   // Use createEmptyLineup() as fallback if props are missing
@@ -61,24 +75,30 @@ export const SetupView: React.FC<SetupViewProps> = ({
 
   const [myLibero, setMyLibero] = useState(initialMyLibero || '');
   const [opLibero, setOpLibero] = useState(initialOpLibero || '');
+  const [mySecondLibero, setMySecondLibero] = useState(initialMySecondLibero || '');
+  const [opSecondLibero, setOpSecondLibero] = useState(initialOpSecondLibero || '');
 
   const [showRoleSelector, setShowRoleSelector] = useState<{isMyTeam: boolean, pos: number} | null>(null);
   
   // NEW: Custom Modal State
   const [showResetConfirm, setShowResetConfirm] = useState(false);
+  const [showOverwriteConfirm, setShowOverwriteConfirm] = useState(false);
 
   // Sync state if props change (Force sync when App.tsx resets state and remounts/updates props)
   useEffect(() => {
     setMatchName(initialConfig?.matchName || '');
     setMyName(initialConfig?.myName || '');
     setOpName(initialConfig?.opName || '');
+    setRules(initialRules || DEFAULT_MATCH_RULES);
     setMyLineup(initialMyLineup || createEmptyLineup());
     setOpLineup(initialOpLineup || createEmptyLineup());
     setMyRoles(initialMyRoles || createEmptyRoles());
     setOpRoles(initialOpRoles || createEmptyRoles());
     setMyLibero(initialMyLibero || '');
     setOpLibero(initialOpLibero || '');
-  }, [initialConfig, initialMyLineup, initialOpLineup, initialMyRoles, initialOpRoles, initialMyLibero, initialOpLibero]);
+    setMySecondLibero(initialMySecondLibero || '');
+    setOpSecondLibero(initialOpSecondLibero || '');
+  }, [initialConfig, initialRules, initialMyLineup, initialOpLineup, initialMyRoles, initialOpRoles, initialMyLibero, initialOpLibero, initialMySecondLibero, initialOpSecondLibero]);
 
   const sanitizeInput = (value: string) => {
       let numericValue = value.replace(/[^0-9]/g, '');
@@ -111,11 +131,16 @@ export const SetupView: React.FC<SetupViewProps> = ({
       setShowRoleSelector(null);
   };
 
-  const handleLiberoChange = (isMyTeam: boolean, value: string) => {
+  const handleLiberoChange = (isMyTeam: boolean, value: string, isSecond: boolean = false) => {
       const val = sanitizeInput(value);
       if (val === null) return;
-      if (isMyTeam) setMyLibero(val);
-      else setOpLibero(val);
+      if (isSecond) {
+          if (isMyTeam) setMySecondLibero(val);
+          else setOpSecondLibero(val);
+      } else {
+          if (isMyTeam) setMyLibero(val);
+          else setOpLibero(val);
+      }
   }
 
   const handleTestFill = () => {
@@ -128,6 +153,8 @@ export const SetupView: React.FC<SetupViewProps> = ({
     setOpRoles({ 1: 'OH', 2: 'MB', 3: 'OP', 4: 'S', 5: 'MB', 6: 'OH' });
     setMyLibero('99');
     setOpLibero('88');
+    setMySecondLibero('98');
+    setOpSecondLibero('87');
   };
 
   const executeReset = () => {
@@ -138,12 +165,15 @@ export const SetupView: React.FC<SetupViewProps> = ({
       setMatchName('');
       setMyName('');
       setOpName('');
+      setRules(DEFAULT_MATCH_RULES);
       setMyLineup(createEmptyLineup());
       setOpLineup(createEmptyLineup());
       setMyRoles(createEmptyRoles());
       setOpRoles(createEmptyRoles());
       setMyLibero('');
       setOpLibero('');
+      setMySecondLibero('');
+      setOpSecondLibero('');
       setErrorMsg(null);
       
       setShowResetConfirm(false);
@@ -158,18 +188,21 @@ export const SetupView: React.FC<SetupViewProps> = ({
           setMatchName('');
           setMyName('');
           setOpName('');
+          setRules(DEFAULT_MATCH_RULES);
           setMyLineup(createEmptyLineup());
           setOpLineup(createEmptyLineup());
           setMyRoles(createEmptyRoles());
           setOpRoles(createEmptyRoles());
           setMyLibero('');
           setOpLibero('');
+          setMySecondLibero('');
+          setOpSecondLibero('');
           setErrorMsg(null);
       }
   };
 
-  const getDuplicates = (lineup: Lineup, libero: string) => {
-    const nums = [...Object.values(lineup), libero].filter(n => n.trim() !== '');
+  const getDuplicates = (lineup: Lineup, liberos: string[]) => {
+    const nums = [...Object.values(lineup), ...liberos].filter(n => n.trim() !== '');
     const seen = new Set();
     const duplicates = new Set();
     nums.forEach(n => {
@@ -184,8 +217,8 @@ export const SetupView: React.FC<SetupViewProps> = ({
   };
 
   useEffect(() => {
-    const myDups = getDuplicates(myLineup, myLibero);
-    const opDups = getDuplicates(opLineup, opLibero);
+    const myDups = getDuplicates(myLineup, rules.liberoEnabled ? [myLibero, mySecondLibero] : []);
+    const opDups = getDuplicates(opLineup, rules.liberoEnabled ? [opLibero, opSecondLibero] : []);
     const myEmpty = hasEmptyFields(myLineup);
     const opEmpty = hasEmptyFields(opLineup);
     
@@ -200,14 +233,29 @@ export const SetupView: React.FC<SetupViewProps> = ({
     } else {
       setErrorMsg(null);
     }
-  }, [myLineup, opLineup, myLibero, opLibero]);
+  }, [myLineup, opLineup, myLibero, opLibero, mySecondLibero, opSecondLibero, rules]);
 
   const startGame = () => {
     const finalMyName = myName.trim() || '我方球隊';
     const finalOpName = opName.trim() || '對手球隊';
     
     if (errorMsg) return;
-    onStart({ matchName, myName: finalMyName, opName: finalOpName }, myLineup, opLineup, myRoles, opRoles, myLibero, opLibero, firstServe);
+    // Libero numbers are dropped when the rules do not allow one
+    const finalMyLibero = rules.liberoEnabled ? myLibero : '';
+    const finalOpLibero = rules.liberoEnabled ? opLibero : '';
+    const finalMySecondLibero = rules.liberoEnabled ? mySecondLibero : '';
+    const finalOpSecondLibero = rules.liberoEnabled ? opSecondLibero : '';
+    onStart({ matchName, myName: finalMyName, opName: finalOpName }, myLineup, opLineup, myRoles, opRoles, finalMyLibero, finalOpLibero, firstServe, rules, finalMySecondLibero, finalOpSecondLibero);
+  };
+
+  const handleStartClick = () => {
+      if (errorMsg) return;
+      // A new match replaces the autosave, so an unfinished match has to be given up explicitly
+      if (unfinishedMatch) {
+          setShowOverwriteConfirm(true);
+      } else {
+          startGame();
+      }
   };
   
   const handleConfirmNewMatch = () => {
@@ -275,6 +323,31 @@ export const SetupView: React.FC<SetupViewProps> = ({
             <input type="text" value={matchName} onChange={(e) => setMatchName(e.target.value)} className="w-full bg-neutral-900/60 backdrop-blur-sm border border-neutral-700 text-center py-2 rounded-lg text-white focus:border-accent focus:outline-none placeholder-gray-500" placeholder="輸入比賽名稱 (選填)" />
         </div>
 
+        {/* Autosaved match that was interrupted (closed tab, crash, ...) */}
+        {!isGameActive && unfinishedMatch && (
+        <section className="px-4 pt-4">
+            <div className="bg-emerald-900/30 border border-emerald-600/50 rounded-xl p-4">
+                <div className="flex items-center justify-between mb-2">
+                    <h3 className="text-emerald-400 font-bold text-sm">未完成的比賽</h3>
+                    <span className="text-[10px] text-gray-500">{new Date(unfinishedMatch.savedAt).toLocaleString('zh-TW', { hour12: false })}</span>
+                </div>
+                {unfinishedMatch.config.matchName && <div className="text-xs text-gray-400 mb-1">{unfinishedMatch.config.matchName}</div>}
+                <div className="flex items-center justify-between text-white font-bold">
+                    <span className="truncate flex-1 text-accent">{unfinishedMatch.config.myName}</span>
+                    <span className="font-mono font-black text-2xl px-3">{unfinishedMatch.state.myScore} - {unfinishedMatch.state.opScore}</span>
+                    <span className="truncate flex-1 text-right text-red-500">{unfinishedMatch.config.opName}</span>
+                </div>
+                <div className="text-xs text-gray-400 text-center mb-3">
+                    第 {unfinishedMatch.state.currentSet || 1} 局 · 局數 {unfinishedMatch.state.mySetWins || 0} - {unfinishedMatch.state.opSetWins || 0}
+                </div>
+                <div className="flex gap-2">
+                    <button onClick={onDiscardUnfinished} className="flex-1 bg-neutral-700 text-gray-300 font-bold py-2 rounded-lg text-sm">捨棄</button>
+                    <button onClick={onResumeUnfinished} className="flex-[2] bg-emerald-600 hover:bg-emerald-500 text-white font-bold py-2 rounded-lg">繼續未完成的比賽</button>
+                </div>
+            </div>
+        </section>
+        )}
+
         {/* 1. Opponent Team (TOP) */}
         <section className="p-4 bg-neutral-900/50">
           <div className="flex items-center gap-2 mb-4">
@@ -288,10 +361,13 @@ export const SetupView: React.FC<SetupViewProps> = ({
              <div className="grid grid-cols-3 gap-4 px-2">{[2, 3, 4].map(pos => renderInput(false, pos))}</div>
              <div className="text-[10px] text-red-500 text-center mt-1 font-bold">前排 (Front / Net)</div>
           </div>
+           {rules.liberoEnabled && (
            <div className="mt-2 flex items-center justify-center gap-2">
               <span className="text-xs font-bold text-yellow-500">自由 (L)</span>
-              <input type="tel" value={opLibero} onChange={(e) => handleLiberoChange(false, e.target.value)} placeholder="L" className="w-16 text-center border border-yellow-900/50 bg-yellow-900/20 rounded-lg p-2 text-white focus:border-yellow-500 focus:outline-none text-xl font-bold" />
+              <input type="tel" value={opLibero} onChange={(e) => handleLiberoChange(false, e.target.value)} placeholder="L1" className="w-16 text-center border border-yellow-900/50 bg-yellow-900/20 rounded-lg p-2 text-white focus:border-yellow-500 focus:outline-none text-xl font-bold" />
+              <input type="tel" value={opSecondLibero} onChange={(e) => handleLiberoChange(false, e.target.value, true)} placeholder="L2" className="w-16 text-center border border-yellow-900/50 bg-yellow-900/20 rounded-lg p-2 text-white focus:border-yellow-500 focus:outline-none text-xl font-bold" />
           </div>
+           )}
         </section>
 
         {/* THE NET */}
@@ -309,16 +385,56 @@ export const SetupView: React.FC<SetupViewProps> = ({
              <div className="grid grid-cols-3 gap-4 px-2">{[5, 6, 1].map(pos => renderInput(true, pos))}</div>
              <div className="text-[10px] text-gray-500 text-center mt-1 font-bold">後排 (Back)</div>
           </div>
+           {rules.liberoEnabled && (
            <div className="mt-2 flex items-center justify-center gap-2">
               <span className="text-xs font-bold text-yellow-500">自由 (L)</span>
-              <input type="tel" value={myLibero} onChange={(e) => handleLiberoChange(true, e.target.value)} placeholder="L" className="w-16 text-center border border-yellow-900/50 bg-yellow-900/20 rounded-lg p-2 text-white focus:border-yellow-500 focus:outline-none text-xl font-bold" />
+              <input type="tel" value={myLibero} onChange={(e) => handleLiberoChange(true, e.target.value)} placeholder="L1" className="w-16 text-center border border-yellow-900/50 bg-yellow-900/20 rounded-lg p-2 text-white focus:border-yellow-500 focus:outline-none text-xl font-bold" />
+              <input type="tel" value={mySecondLibero} onChange={(e) => handleLiberoChange(true, e.target.value, true)} placeholder="L2" className="w-16 text-center border border-yellow-900/50 bg-yellow-900/20 rounded-lg p-2 text-white focus:border-yellow-500 focus:outline-none text-xl font-bold" />
           </div>
+           )}
           <div className="flex items-center gap-2 mt-4">
             <span className="w-2 h-6 bg-accent rounded-sm shrink-0"></span>
              <input type="text" value={myName} onChange={(e) => setMyName(e.target.value)} className="w-full bg-white border border-gray-300 text-center py-2 rounded-lg text-black focus:border-accent focus:outline-none placeholder-gray-400 font-bold shadow-sm" placeholder="輸入我方球隊" />
           </div>
         </section>
 
+        <section className="px-4 pt-4 pb-2">
+             <h3 className="text-sm text-gray-400 font-bold mb-2 text-center uppercase tracking-wider">賽制</h3>
+             <div className="grid grid-cols-2 gap-2">
+                 {(Object.keys(MATCH_RULE_PRESETS) as RulesPreset[]).map(preset => {
+                     const presetRules = MATCH_RULE_PRESETS[preset];
+                     const isSelected = rules.preset === preset;
+                     return (
+                         <button 
+                            key={preset} 
+                            onClick={() => setRules(presetRules)} 
+                            disabled={isGameActive}
+                            className={`py-2 rounded-lg border-2 transition-all disabled:opacity-50 ${isSelected ? 'bg-purple-700 border-purple-500 text-white' : 'bg-neutral-800 border-neutral-700 text-gray-500'}`}
+                         >
+                             <div className="font-bold">{RULE_PRESET_LABELS[preset]}</div>
+                             <div className="text-[10px] opacity-80">{describeRules(presetRules)}{presetRules.liberoEnabled ? '' : ' · 無自由'}</div>
+                         </button>
+                     );
+                 })}
+             </div>
+             <div className="flex items-center justify-between mt-2 bg-neutral-800 border border-neutral-700 rounded-lg px-3 py-2">
+                 <span className="text-gray-400 text-sm font-bold">每局暫停次數</span>
+                 <div className="flex items-center gap-3">
+                     <button onClick={() => setRules({ ...rules, timeoutsPerSet: Math.max(0, rules.timeoutsPerSet - 1) })} disabled={isGameActive} className="w-8 h-8 rounded bg-neutral-700 text-white font-black disabled:opacity-50">-</button>
+                     <span className="text-white font-black w-4 text-center">{rules.timeoutsPerSet}</span>
+                     <button onClick={() => setRules({ ...rules, timeoutsPerSet: rules.timeoutsPerSet + 1 })} disabled={isGameActive} className="w-8 h-8 rounded bg-neutral-700 text-white font-black disabled:opacity-50">+</button>
+                 </div>
+             </div>
+             <div className="flex items-center justify-between mt-2 bg-neutral-800 border border-neutral-700 rounded-lg px-3 py-2">
+                 <span className="text-gray-400 text-sm font-bold">可復原步數 <span className="text-[10px] font-normal">(隨存檔保存)</span></span>
+                 <div className="flex items-center gap-3">
+                     <button onClick={() => setRules({ ...rules, undoLimit: Math.max(10, rules.undoLimit - 10) })} disabled={isGameActive} className="w-8 h-8 rounded bg-neutral-700 text-white font-black disabled:opacity-50">-</button>
+                     <span className="text-white font-black w-8 text-center">{rules.undoLimit}</span>
+                     <button onClick={() => setRules({ ...rules, undoLimit: Math.min(200, rules.undoLimit + 10) })} disabled={isGameActive} className="w-8 h-8 rounded bg-neutral-700 text-white font-black disabled:opacity-50">+</button>
+                 </div>
+             </div>
+        </section>
+
         <section className="px-4 py-2 pb-4">
              <h3 className="text-sm text-gray-400 font-bold mb-2 text-center uppercase tracking-wider">先發球權</h3>
              <div className="grid grid-cols-2 gap-4">
@@ -342,7 +458,7 @@ export const SetupView: React.FC<SetupViewProps> = ({
                 <button onClick={onResume} className="flex-[2] bg-emerald-600 hover:bg-emerald-500 text-white font-bold py-4 rounded-xl shadow-lg transition-all active:scale-95 text-xl">繼續比賽</button>
             </div>
         ) : (
-            <button onClick={startGame} disabled={!!errorMsg} className={`w-full max-w-[400px] font-bold py-4 rounded-xl text-xl shadow-lg transition-all active:scale-95 flex items-center justify-center gap-2 ${errorMsg ? 'bg-neutral-800 text-neutral-500 cursor-not-allowed border border-neutral-700' : 'bg-accent hover:bg-blue-600 text-white shadow-blue-900/50'}`}>開始比賽</button>
+            <button onClick={handleStartClick} disabled={!!errorMsg} className={`w-full max-w-[400px] font-bold py-4 rounded-xl text-xl shadow-lg transition-all active:scale-95 flex items-center justify-center gap-2 ${errorMsg ? 'bg-neutral-800 text-neutral-500 cursor-not-allowed border border-neutral-700' : 'bg-accent hover:bg-blue-600 text-white shadow-blue-900/50'}`}>開始比賽</button>
         )}
       </div>
 
@@ -390,6 +506,32 @@ export const SetupView: React.FC<SetupViewProps> = ({
         </div>
       )}
 
+      {showOverwriteConfirm && unfinishedMatch && (
+        <div className="absolute inset-0 z-[150] bg-black/80 flex items-center justify-center p-4" onClick={() => setShowOverwriteConfirm(false)}>
+            <div className="bg-neutral-800 rounded-2xl p-6 w-full max-w-xs border border-neutral-700 shadow-2xl animate-fade-in" onClick={e => e.stopPropagation()}>
+                <h3 className="text-center text-white font-bold text-xl mb-3">開始新比賽？</h3>
+                <p className="text-center text-gray-400 mb-6 text-sm">
+                    {unfinishedMatch.config.myName} vs {unfinishedMatch.config.opName} 尚未結束<br/>
+                    <span className="text-red-400">開始新比賽將覆蓋這場比賽的自動存檔。</span>
+                </p>
+                <div className="flex gap-3">
+                    <button 
+                        onClick={() => setShowOverwriteConfirm(false)}
+                        className="flex-1 py-3 bg-neutral-700 text-gray-300 rounded-lg font-bold hover:bg-neutral-600"
+                    >
+                        取消
+                    </button>
+                    <button 
+                        onClick={() => { setShowOverwriteConfirm(false); startGame(); }}
+                        className="flex-1 py-3 bg-red-600 text-white rounded-lg font-bold hover:bg-red-500 shadow-lg"
+                    >
+                        確認開始
+                    </button>
+                </div>
+            </div>
+        </div>
+      )}
+
     </div>
   );
 };
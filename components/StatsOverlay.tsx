@@ -1,51 +1,83 @@
 
 import React, { useState, useMemo } from 'react';
-import { LogEntry, TeamConfig, TeamSide, ActionType, ResultType } from '../types';
+import { LogEntry, TeamConfig, TeamSide, ActionType, ResultType, MatchRules, SetResult } from '../types';
+import { RULE_PRESET_LABELS, describeRules, formatSetScores } from '../utils/matchRules';
+import { ACTION_LABELS, getTeamLogs as filterTeamLogs } from '../utils/logs';
+import { getRunAfterTimeout } from '../utils/timeouts';
+import { QUALITY_LEVELS, QUALITY_SYMBOLS, getQualityCounts } from '../utils/quality';
+import { ReceptionSummary, getReceptionSummary } from '../utils/reception';
+import { groupRallies } from '../utils/rally';
+import { getZoneDistribution } from '../utils/zones';
+import { getLoggedLiberos } from '../utils/libero';
+import { FAULT_LABELS, FAULT_TYPES, getOpponentErrorPoints } from '../utils/faults';
+import { ServeTargetRow, getServeOutcomes, getServeTargetsByReceiver, getServeTargetsByZone } from '../utils/serve';
+import { DeliveryRow, getSetterDeliveries, groupDeliveries } from '../utils/setter';
+import { ATTACK_ORIGINS, AttackCell, AttackDirection, getAttackDirections, getAttackTable, getBlockedAttackIds } from '../utils/attack';
+import { RotationSplit, getFirstServers, getPointRecords, getRotationSplits, getTeamSplit } from '../utils/rotation';
 // @ts-ignore
 import html2canvas from 'html2canvas';
 
 interface StatsOverlayProps {
   logs: LogEntry[];
   teamConfig: TeamConfig;
+  matchRules: MatchRules;
   myScore: number;
   opScore: number;
   mySetWins: number;
   opSetWins: number;
+  setResults: SetResult[];
+  setFirstServer: TeamSide;
   onBack: () => void;
   currentSet: number;
 }
 
+type ChartMode = 'arrows' | 'heatmap' | 'dots';
+
+const CHART_MODE_LABELS: Record<ChartMode, string> = {
+  arrows: '路徑',
+  heatmap: '熱區',
+  dots: '落點',
+};
+
+// Heatmap grid cell size in chart units (court = 200 x 100)
+const HEAT_CELL = 10;
+
 interface StatSummary {
   attackKills: number;
   attackTotal: number;
+  attackErrors: number;      // ATTACK + ERROR (out, net, ...)
+  attackBlocked: number;     // Attacks stuffed by an opponent block point
+  hittingEfficiency: number; // (K - E - Blocked) / TA
+  killPct: number;           // K / TA, 0-100
   blocks: number;
   serveAces: number;
   serveErrors: number;
   digs: number;
   totalPoints: number;
+  reception: ReceptionSummary;
 }
 
 export const StatsOverlay: React.FC<StatsOverlayProps> = ({
   logs,
   teamConfig,
+  matchRules,
   myScore,
   opScore,
   mySetWins,
   opSetWins,
+  setResults,
+  setFirstServer,
   onBack,
   currentSet
 }) => {
   const [activeTab, setActiveTab] = useState<TeamSide>('me');
   const [selectedPlayer, setSelectedPlayer] = useState<string | null>(null);
   const [isDownloading, setIsDownloading] = useState(false);
+  const [chartMode, setChartMode] = useState<ChartMode>('arrows');
 
   // Helper: Filter logs for a specific team
   const getTeamLogs = (side: TeamSide) => {
-    return logs.filter(l => {
-      const isMyAction = l.note === teamConfig.myName;
-      const logTeam: TeamSide = isMyAction ? 'me' : 'op';
-      return logTeam === side;
-    });
+    return filterTeamLogs(logs, side);
   };
 
   // Helper: Filter logs for a specific player
@@ -53,11 +85,16 @@ export const StatsOverlay: React.FC<StatsOverlayProps> = ({
     return getTeamLogs(side).filter(l => l.playerNumber === playerNum);
   };
 
+  // Attacks that ended on an opponent block (needs both teams' logs)
+  const blockedAttackIds = useMemo(() => getBlockedAttackIds(logs), [logs]);
+
   // Helper: Calculate Stats
   const calculateStats = (filteredLogs: LogEntry[]): StatSummary => {
     let stats = {
       attackKills: 0,
       attackTotal: 0,
+      attackErrors: 0,
+      attackBlocked: 0,
       blocks: 0,
       serveAces: 0,
       serveErrors: 0,
@@ -69,6 +106,8 @@ export const StatsOverlay: React.FC<StatsOverlayProps> = ({
       if (l.action === ActionType.ATTACK) {
         stats.attackTotal++;
         if (l.result === ResultType.POINT) stats.attackKills++;
+        if (l.result === ResultType.ERROR) stats.attackErrors++;
+        if (blockedAttackIds.has(l.id)) stats.attackBlocked++;
       }
       if (l.action === ActionType.BLOCK && l.result === ResultType.POINT) {
         stats.blocks++;
@@ -83,12 +122,28 @@ export const StatsOverlay: React.FC<StatsOverlayProps> = ({
     });
 
     stats.totalPoints = stats.attackKills + stats.blocks + stats.serveAces;
-    return stats;
+    const { attackKills, attackErrors, attackBlocked, attackTotal } = stats;
+    return {
+      ...stats,
+      hittingEfficiency: attackTotal > 0 ? (attackKills - attackErrors - attackBlocked) / attackTotal : 0,
+      killPct: attackTotal > 0 ? (attackKills / attackTotal) * 100 : 0,
+      reception: getReceptionSummary(filteredLogs)
+    };
   };
 
   // Pre-calculate Team Stats
   const myTeamStats = calculateStats(getTeamLogs('me'));
   const opTeamStats = calculateStats(getTeamLogs('op'));
+  const myErrorPoints = getOpponentErrorPoints(logs, 'me');
+  const opErrorPoints = getOpponentErrorPoints(logs, 'op');
+
+  // Scored points with server and rotations, replayed from the score line
+  const pointRecords = useMemo(
+    () => getPointRecords(logs, getFirstServers(setResults, currentSet, setFirstServer)),
+    [logs, setResults, currentSet, setFirstServer]
+  );
+  const mySplit = getTeamSplit(pointRecords, 'me');
+  const opSplit = getTeamSplit(pointRecords, 'op');
 
   const currentPlayerStats = selectedPlayer 
     ? calculateStats(getPlayerLogs(selectedPlayer, activeTab)) 
@@ -97,7 +152,7 @@ export const StatsOverlay: React.FC<StatsOverlayProps> = ({
   // Get list of players for the ACTIVE TAB
   const activePlayersList = useMemo(() => {
     const teamLogs = getTeamLogs(activeTab);
-    const players = Array.from(new Set(teamLogs.map(l => l.playerNumber))).sort((a: string, b: string) => parseInt(a) - parseInt(b));
+    const players = Array.from(new Set(teamLogs.filter(l => l.playerNumber).map(l => l.playerNumber))).sort((a: string, b: string) => parseInt(a) - parseInt(b));
     
     const playerPoints = players.map(p => {
         const pStats = calculateStats(teamLogs.filter(l => l.playerNumber === p));
@@ -109,7 +164,7 @@ export const StatsOverlay: React.FC<StatsOverlayProps> = ({
     const top2 = sortedByPoints[1]?.points > 0 ? sortedByPoints[1].number : null;
 
     return { players, top1, top2 };
-  }, [logs, activeTab, teamConfig]);
+  }, [logs, activeTab, teamConfig, blockedAttackIds]);
 
 
   // --- VISUALIZER ENGINE ---
@@ -168,6 +223,40 @@ export const StatsOverlay: React.FC<StatsOverlayProps> = ({
         ? { x: -40, y: -40, w: 180, h: 280 } 
         : { x: -40, y: -40, w: 280, h: 180 };
 
+    const getResultColor = (l: LogEntry) => {
+        if (l.result === ResultType.ERROR) return '#EF4444';
+        if (l.result === ResultType.POINT) return l.action === ActionType.SERVE ? '#3B82F6' : '#10B981';
+        return '#9CA3AF';
+    };
+
+    // Landing density: count landings per grid cell, then spread each cell to its neighbours
+    const getHeatCells = () => {
+        const counts = new Map<string, number>();
+        drawLogs.forEach(l => {
+            const i = Math.floor(mapX(l.endCoord!.x, l.endCoord!.y) / HEAT_CELL);
+            const j = Math.floor(mapY(l.endCoord!.x, l.endCoord!.y) / HEAT_CELL);
+            counts.set(`${i},${j}`, (counts.get(`${i},${j}`) || 0) + 1);
+        });
+
+        const density = new Map<string, number>();
+        counts.forEach((count, key) => {
+            const [i, j] = key.split(',').map(Number);
+            for (let di = -1; di <= 1; di++) {
+                for (let dj = -1; dj <= 1; dj++) {
+                    const weight = di === 0 && dj === 0 ? 1 : (di === 0 || dj === 0 ? 0.5 : 0.25);
+                    const k = `${i + di},${j + dj}`;
+                    density.set(k, (density.get(k) || 0) + count * weight);
+                }
+            }
+        });
+
+        const max = Math.max(...Array.from(density.values()));
+        return Array.from(density.entries()).map(([key, value]) => {
+            const [i, j] = key.split(',').map(Number);
+            return { key, x: i * HEAT_CELL, y: j * HEAT_CELL, t: value / max };
+        });
+    };
+
     return (
       <div className={`relative ${containerClasses} overflow-hidden rounded-lg`}>
         
@@ -273,8 +362,33 @@ export const StatsOverlay: React.FC<StatsOverlayProps> = ({
                 )}
             </g>
 
-            {/* 3. TRAJECTORY LINES */}
-            {drawLogs.map(l => {
+            {/* 3a. LANDING HEATMAP (yellow = few, red = many) */}
+            {chartMode === 'heatmap' && drawLogs.length > 0 && getHeatCells().map(c => (
+                <rect 
+                    key={c.key}
+                    x={c.x} y={c.y}
+                    width={HEAT_CELL} height={HEAT_CELL}
+                    fill={`hsl(${Math.round(55 - 55 * c.t)}, 95%, 50%)`}
+                    opacity={0.15 + 0.65 * c.t}
+                />
+            ))}
+
+            {/* 3b. LANDING DOTS */}
+            {chartMode === 'dots' && drawLogs.map(l => (
+                <circle 
+                    key={l.id}
+                    cx={mapX(l.endCoord!.x, l.endCoord!.y)}
+                    cy={mapY(l.endCoord!.x, l.endCoord!.y)}
+                    r="2.5"
+                    fill={getResultColor(l)}
+                    stroke="white"
+                    strokeWidth="0.5"
+                    opacity="0.9"
+                />
+            ))}
+
+            {/* 3c. TRAJECTORY LINES */}
+            {chartMode === 'arrows' && drawLogs.map(l => {
                 let color = '#9CA3AF';
                 let markerId = `arrow-normal${markerIdSuffix}`;
 
@@ -337,9 +451,480 @@ export const StatsOverlay: React.FC<StatsOverlayProps> = ({
       </div>
   );
 
+  const formatQualityCounts = (r: ReceptionSummary) => QUALITY_LEVELS.map(q => r.counts[q]).join('/');
+
+  // Team reception comparison. Aces conceded = own reception errors + opponent service aces
+  const renderReceptionComparison = () => {
+      const my = myTeamStats.reception;
+      const op = opTeamStats.reception;
+      if (my.total === 0 && op.total === 0) return null;
+
+      const myAced = my.errors + opTeamStats.serveAces;
+      const opAced = op.errors + myTeamStats.serveAces;
+
+      return (
+          <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-5 mb-4">
+              <div className="text-xs font-bold text-slate-400 uppercase mb-2">接發 (Reception)</div>
+              <div className="space-y-1">
+                  {renderComparisonRow("Rec", my.total, op.total)}
+                  {renderComparisonRow(QUALITY_LEVELS.map(q => QUALITY_SYMBOLS[q]).join('/'), formatQualityCounts(my), formatQualityCounts(op))}
+                  {renderComparisonRow("#+ %", `${my.perfectGoodPct.toFixed(0)}%`, `${op.perfectGoodPct.toFixed(0)}%`, my.perfectGoodPct > op.perfectGoodPct, op.perfectGoodPct > my.perfectGoodPct)}
+                  {renderComparisonRow("Rating", my.passerRating.toFixed(2), op.passerRating.toFixed(2), my.passerRating > op.passerRating, op.passerRating > my.passerRating)}
+                  {renderComparisonRow("Aced", myAced, opAced)}
+              </div>
+          </div>
+      );
+  };
+
+  // Volleyball convention: ".312", "-.050"
+  const formatEfficiency = (value: number) => value.toFixed(3).replace(/^(-?)0\./, '$1.');
+
+  const formatPct = (won: number, total: number) => total > 0 ? `${Math.round((won / total) * 100)}%` : '-';
+
+  // Side-out (receiving) and break-point (serving) % for rotations 1-6 of the active tab
+  const renderRotationStats = () => {
+      if (pointRecords.length === 0) return null;
+      const splits = getRotationSplits(pointRecords, activeTab);
+      const total = activeTab === 'me' ? mySplit : opSplit;
+
+      const renderRow = (label: string, split: RotationSplit, isTotal = false) => (
+          <div key={label} className={`grid grid-cols-3 items-center py-2 border-b border-slate-100 last:border-0 ${isTotal ? 'font-black' : ''}`}>
+              <span className="font-black text-slate-500">{label}</span>
+              <span className="text-center">
+                  <span className="font-black text-slate-800">{formatPct(split.sideOutWon, split.sideOutTotal)}</span>
+                  <span className="text-[10px] font-bold text-slate-400 ml-1">{split.sideOutWon}/{split.sideOutTotal}</span>
+              </span>
+              <span className="text-center">
+                  <span className="font-black text-slate-800">{formatPct(split.breakWon, split.breakTotal)}</span>
+                  <span className="text-[10px] font-bold text-slate-400 ml-1">{split.breakWon}/{split.breakTotal}</span>
+              </span>
+          </div>
+      );
+
+      return (
+          <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-5 mb-4">
+              <div className="text-xs font-bold text-slate-400 uppercase mb-2">
+                  輪轉表現 · {activeTab === 'me' ? teamConfig.myName : teamConfig.opName}
+              </div>
+              <div className="grid grid-cols-3 text-[10px] font-bold text-slate-400 uppercase pb-1 border-b border-slate-100">
+                  <span>輪轉 (R1 = 開局)</span>
+                  <span className="text-center">Side-out % (接發得分)</span>
+                  <span className="text-center">Break % (發球得分)</span>
+              </div>
+              {splits.map((split, i) => {
+                  // Latest player seen in position 1 in this rotation
+                  const p1 = [...pointRecords].reverse().find(p => p.rotation[activeTab] === i + 1 && p.position1)?.position1?.[activeTab];
+                  return renderRow(p1 ? `R${i + 1} #${p1}` : `R${i + 1}`, split);
+              })}
+              {renderRow('Total', total, true)}
+          </div>
+      );
+  };
+
+  // Rally lengths, the touch that ended each rally and the touch-by-touch sequences
+  const renderRallySummary = () => {
+      const rallies = groupRallies(logs).filter(r => r.winner !== null);
+      if (rallies.length === 0) return null;
+
+      const lengths = rallies.map(r => r.touches.length);
+      const avgLength = lengths.reduce((a, b) => a + b, 0) / rallies.length;
+      const endings: Record<string, number> = {};
+      rallies.forEach(r => {
+          const last = r.entries[r.entries.length - 1];
+          const label = last.action === ActionType.TEAM_ERROR && last.fault ? FAULT_LABELS[last.fault] : ACTION_LABELS[last.action] || last.action;
+          endings[label] = (endings[label] || 0) + 1;
+      });
+
+      return (
+          <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-5 mb-4">
+              <div className="text-xs font-bold text-slate-400 uppercase mb-2">回合 (Rallies)</div>
+              <div className="grid grid-cols-3 text-center mb-3">
+                  <div>
+                      <div className="text-2xl font-black text-slate-800">{rallies.length}</div>
+                      <div className="text-[10px] font-bold text-slate-400">回合數</div>
+                  </div>
+                  <div>
+                      <div className="text-2xl font-black text-slate-800">{avgLength.toFixed(1)}</div>
+                      <div className="text-[10px] font-bold text-slate-400">平均觸球</div>
+                  </div>
+                  <div>
+                      <div className="text-2xl font-black text-slate-800">{Math.max(...lengths)}</div>
+                      <div className="text-[10px] font-bold text-slate-400">最長回合</div>
+                  </div>
+              </div>
+              <div className="flex flex-wrap gap-2 mb-3">
+                  {Object.entries(endings).sort((a, b) => b[1] - a[1]).map(([label, count]) => (
+                      <span key={label} className="text-xs font-bold bg-slate-100 text-slate-600 px-2 py-1 rounded-full">{label}結束 {count}</span>
+                  ))}
+              </div>
+              <div className="divide-y divide-slate-100 max-h-64 overflow-y-auto">
+                  {[...rallies].reverse().map(r => {
+                      const last = r.entries[r.entries.length - 1];
+                      return (
+                          <div key={r.id} className="flex items-center gap-2 py-2 text-xs">
+                              <span className="font-bold text-slate-400 w-20 shrink-0">SET {r.setNumber} · {last.myScore}-{last.opScore}</span>
+                              <span className="flex-1 font-bold text-slate-700">
+                                  {[
+                                      ...r.touches.map(l => `#${l.playerNumber} ${ACTION_LABELS[l.action] || l.action}`),
+                                      ...(last.playerNumber ? [] : [last.fault ? `${ACTION_LABELS[last.action]} (${FAULT_LABELS[last.fault]})` : ACTION_LABELS[last.action] || last.action])
+                                  ].join(' → ')}
+                              </span>
+                              <span className={`w-2 h-2 rounded-full shrink-0 ${r.winner === 'me' ? 'bg-accent' : 'bg-red-500'}`}></span>
+                          </div>
+                      );
+                  })}
+              </div>
+          </div>
+      );
+  };
+
+  // Quality distribution (# + ! -) of the graded ball-control actions
+  const renderQualityBreakdown = (sourceLogs: LogEntry[]) => {
+      const graded = [ActionType.RECEIVE, ActionType.DIG, ActionType.SET]
+          .map(action => ({ action, actionLogs: sourceLogs.filter(l => l.action === action) }))
+          .filter(row => row.actionLogs.length > 0);
+      if (graded.length === 0) return null;
+
+      const labels: Record<string, string> = { [ActionType.RECEIVE]: '接發', [ActionType.DIG]: '防守', [ActionType.SET]: '舉球' };
+
+      return (
+          <div>
+              <div className="grid grid-cols-6 text-[10px] font-bold text-slate-400 uppercase pb-1 border-b border-slate-100">
+                  <span className="col-span-2">品質 (Quality)</span>
+                  {QUALITY_LEVELS.map(q => <span key={q} className="text-center">{QUALITY_SYMBOLS[q]}</span>)}
+              </div>
+              {graded.map(({ action, actionLogs }) => {
+                  const counts = getQualityCounts(actionLogs);
+                  return (
+                      <div key={action} className="grid grid-cols-6 items-center py-2 border-b border-slate-100 last:border-0">
+                          <span className="col-span-2 text-slate-500 font-bold text-sm">{labels[action]} ({actionLogs.length})</span>
+                          {QUALITY_LEVELS.map(q => <span key={q} className="text-center font-black text-slate-800">{counts[q]}</span>)}
+                      </div>
+                  );
+              })}
+          </div>
+      );
+  };
+
+  // Reception & dig split between the liberos that played for the active tab (from the libero entries)
+  const renderLiberoStats = () => {
+      const liberos = getLoggedLiberos(logs, activeTab);
+      if (liberos.length === 0) return null;
+
+      return (
+          <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-5 mb-4">
+              <div className="text-xs font-bold text-slate-400 uppercase mb-2">
+                  自由球員 · {activeTab === 'me' ? teamConfig.myName : teamConfig.opName}
+              </div>
+              <div className="grid grid-cols-4 text-[10px] font-bold text-slate-400 uppercase pb-1 border-b border-slate-100">
+                  <span>Libero</span>
+                  <span className="text-center">接發 (Rec)</span>
+                  <span className="text-center">接發失誤</span>
+                  <span className="text-center">防守 (Digs)</span>
+              </div>
+              {liberos.map(num => {
+                  const liberoLogs = getPlayerLogs(num, activeTab);
+                  const receptions = liberoLogs.filter(l => l.action === ActionType.RECEIVE);
+                  const receptionErrors = receptions.filter(l => l.result === ResultType.ERROR).length;
+                  const digs = liberoLogs.filter(l => l.action === ActionType.DIG).length;
+                  return (
+                      <div key={num} className="grid grid-cols-4 items-center py-2 border-b border-slate-100 last:border-0">
+                          <span className="font-black text-yellow-600">#{num}</span>
+                          <span className="text-center font-black text-slate-800">{receptions.length}</span>
+                          <span className="text-center font-black text-red-500">{receptionErrors}</span>
+                          <span className="text-center font-black text-orange-500">{digs}</span>
+                      </div>
+                  );
+              })}
+          </div>
+      );
+  };
+
+  const renderSubHistory = () => {
+      const subs = getTeamLogs(activeTab).filter(l => l.action === ActionType.SUB);
+      if (subs.length === 0) return null;
+
+      return (
+          <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-5 mb-4">
+              <div className="text-xs font-bold text-slate-400 uppercase mb-2">
+                  換人紀錄 · {activeTab === 'me' ? teamConfig.myName : teamConfig.opName}
+              </div>
+              <div className="divide-y divide-slate-100">
+                  {subs.map(l => (
+                      <div key={l.id} className="flex items-center justify-between py-2 text-sm">
+                          <span className="text-xs font-bold text-slate-400 w-20">SET {l.setNumber} · {l.myScore}-{l.opScore}</span>
+                          <span className="font-black text-slate-800">
+                              <span className="text-emerald-600">#{l.playerNumber}</span>
+                              <span className="text-slate-300 mx-2">⇄</span>
+                              <span className="text-red-500">#{l.subOut}</span>
+                          </span>
+                          <span className="text-xs font-bold text-slate-400">P{l.position}</span>
+                      </div>
+                  ))}
+              </div>
+          </div>
+      );
+  };
+
+  // Timeouts of the active tab with the points scored until the next timeout
+  const renderTimeoutHistory = () => {
+      const timeouts = getTeamLogs(activeTab).filter(l => l.action === ActionType.TIMEOUT);
+      if (timeouts.length === 0) return null;
+
+      return (
+          <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-5 mb-4">
+              <div className="text-xs font-bold text-slate-400 uppercase mb-2">
+                  暫停紀錄 · {activeTab === 'me' ? teamConfig.myName : teamConfig.opName}
+              </div>
+              <div className="divide-y divide-slate-100">
+                  {timeouts.map(l => {
+                      const run = getRunAfterTimeout(logs, l);
+                      return (
+                          <div key={l.id} className="flex items-center justify-between py-2 text-sm">
+                              <span className="text-xs font-bold text-slate-400 w-20">SET {l.setNumber} · {l.myScore}-{l.opScore}</span>
+                              <span className="text-xs font-bold text-slate-400">暫停後</span>
+                              <span className="font-black text-slate-800">
+                                  <span className="text-blue-600">+{run.me}</span>
+                                  <span className="text-slate-300 mx-2">:</span>
+                                  <span className="text-red-500">+{run.op}</span>
+                              </span>
+                          </div>
+                      );
+                  })}
+              </div>
+          </div>
+      );
+  };
+
+  // Landing zone shares for attacks and serves, e.g. "5 62%"
+  const renderZoneDistribution = (sourceLogs: LogEntry[]) => {
+      const rows = [ActionType.ATTACK, ActionType.SERVE]
+          .map(action => ({ action, zones: getZoneDistribution(sourceLogs.filter(l => l.action === action)) }))
+          .filter(row => row.zones.length > 0);
+      if (rows.length === 0) return null;
+
+      return (
+          <div className="mt-4">
+              <div className="text-xs font-bold text-slate-400 uppercase mb-1">落點區域 (Zones)</div>
+              {rows.map(({ action, zones }) => (
+                  <div key={action} className="flex items-center gap-2 py-2 border-b border-slate-100 last:border-0">
+                      <span className="text-slate-500 font-bold text-sm w-12 shrink-0">{ACTION_LABELS[action]}</span>
+                      <div className="flex flex-wrap gap-1">
+                          {zones.map(z => (
+                              <span key={z.zone} className="text-xs font-bold bg-slate-100 text-slate-700 px-2 py-0.5 rounded-full">
+                                  Z{z.zone} <span className="text-slate-400">{z.pct.toFixed(0)}%</span>
+                              </span>
+                          ))}
+                      </div>
+                  </div>
+              ))}
+          </div>
+      );
+  };
+
+  // Points the active tab received from opponent errors, by action and by team fault category
+  const renderOpponentErrors = () => {
+      const points = activeTab === 'me' ? myErrorPoints : opErrorPoints;
+      if (points.total === 0) return null;
+
+      const chips = [
+          ...Object.entries(points.byAction).map(([action, count]) => ({ key: action, label: ACTION_LABELS[action] || action, count })),
+          ...FAULT_TYPES.filter(f => points.byFault[f] > 0).map(f => ({ key: f, label: FAULT_LABELS[f], count: points.byFault[f] }))
+      ];
+
+      return (
+          <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-5 mb-4">
+              <div className="flex justify-between items-center mb-2">
+                  <div className="text-xs font-bold text-slate-400 uppercase">
+                      對方失誤得分 · {activeTab === 'me' ? teamConfig.myName : teamConfig.opName}
+                  </div>
+                  <div className="text-2xl font-black text-slate-800">{points.total}</div>
+              </div>
+              <div className="flex flex-wrap gap-1">
+                  {chips.map(c => (
+                      <span key={c.key} className="text-xs font-bold bg-slate-100 text-slate-700 px-2 py-0.5 rounded-full">
+                          {c.label} <span className="text-red-500">{c.count}</span>
+                      </span>
+                  ))}
+              </div>
+          </div>
+      );
+  };
+
+  // Serve targets of the active tab: by landing zone and by the opponent who received
+  const renderServeTargets = () => {
+      const outcomes = getServeOutcomes(logs, activeTab);
+      const byZone = getServeTargetsByZone(outcomes);
+      const byReceiver = getServeTargetsByReceiver(outcomes);
+      if (byZone.length === 0 && byReceiver.length === 0) return null;
+
+      const renderTable = (title: string, rows: ServeTargetRow[], formatTarget: (t: string) => string) => rows.length > 0 && (
+          <div className="mb-3 last:mb-0">
+              <div className="grid grid-cols-5 text-[10px] font-bold text-slate-400 uppercase pb-1 border-b border-slate-100">
+                  <span>{title}</span>
+                  <span className="text-center">發球</span>
+                  <span className="text-center">Ace %</span>
+                  <span className="text-center">失誤 %</span>
+                  <span className="text-center">對方接發</span>
+              </div>
+              {rows.map(r => (
+                  <div key={r.target} className="grid grid-cols-5 items-center py-1.5 border-b border-slate-100 last:border-0 text-sm">
+                      <span className="font-black text-slate-600">{formatTarget(r.target)}</span>
+                      <span className="text-center font-bold text-slate-800">{r.total}</span>
+                      <span className="text-center font-bold text-indigo-600">{formatPct(r.aces, r.total)}</span>
+                      <span className="text-center font-bold text-red-500">{formatPct(r.errors, r.total)}</span>
+                      <span className="text-center font-bold text-slate-800">{r.passCount > 0 ? (r.passRatingSum / r.passCount).toFixed(2) : '-'}</span>
+                  </div>
+              ))}
+          </div>
+      );
+
+      return (
+          <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-5 mb-4">
+              <div className="text-xs font-bold text-slate-400 uppercase mb-2">
+                  發球目標 · {activeTab === 'me' ? teamConfig.myName : teamConfig.opName}
+              </div>
+              {renderTable('落點', byZone, t => t === 'OUT' ? 'OUT' : `Z${t}`)}
+              {renderTable('接發者', byReceiver, t => `#${t}`)}
+              <div className="text-[10px] font-bold text-slate-400">對方接發 = 平均接發評分 (0-3，Ace 計 0)</div>
+          </div>
+      );
+  };
+
+  // Where the setter of the active tab sent the ball, per rotation and per preceding reception quality
+  const renderSetterDistribution = () => {
+      const deliveries = getSetterDeliveries(logs, activeTab);
+      if (deliveries.length === 0) return null;
+
+      const roleOrder = ['OH', 'MB', 'OP', 'S', 'DS', 'L'];
+      const targets = Array.from(new Set(deliveries.map(d => d.target)))
+          .sort((a, b) => (roleOrder.indexOf(a) + 1 || 99) - (roleOrder.indexOf(b) + 1 || 99) || a.localeCompare(b));
+      const setters = Array.from(new Set(deliveries.map(d => d.set.playerNumber)));
+
+      const byRotation = groupDeliveries(deliveries, d => d.rotation ? `R${d.rotation}` : null)
+          .sort((a, b) => a.key.localeCompare(b.key));
+      const qualityRows = groupDeliveries(deliveries, d => d.receptionQuality ? QUALITY_SYMBOLS[d.receptionQuality] : '轉換');
+      const qualityOrder = [...QUALITY_LEVELS.map(q => QUALITY_SYMBOLS[q]), '轉換'];
+      const byQuality = qualityRows.sort((a, b) => qualityOrder.indexOf(a.key) - qualityOrder.indexOf(b.key));
+
+      const renderTable = (title: string, rows: DeliveryRow[]) => rows.length > 0 && (
+          <div className="overflow-x-auto mb-3 last:mb-0">
+              <table className="w-full text-xs">
+                  <thead>
+                      <tr className="text-slate-400 font-bold border-b border-slate-100">
+                          <th className="text-left py-1 pr-2">{title}</th>
+                          <th className="text-center py-1 px-1">舉球</th>
+                          {targets.map(t => <th key={t} className="text-center py-1 px-1">{t}</th>)}
+                      </tr>
+                  </thead>
+                  <tbody>
+                      {rows.map(r => (
+                          <tr key={r.key} className="border-b border-slate-100 last:border-0">
+                              <td className="py-1.5 pr-2 font-black text-slate-600">{r.key}</td>
+                              <td className="text-center py-1.5 px-1 font-bold text-slate-800">{r.total}</td>
+                              {targets.map(t => (
+                                  <td key={t} className={`text-center py-1.5 px-1 font-bold ${r.targets[t] ? 'text-slate-800' : 'text-slate-200'}`}>
+                                      {r.targets[t] ? formatPct(r.targets[t], r.total) : '-'}
+                                  </td>
+                              ))}
+                          </tr>
+                      ))}
+                  </tbody>
+              </table>
+          </div>
+      );
+
+      return (
+          <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-5 mb-4">
+              <div className="text-xs font-bold text-slate-400 uppercase mb-2">
+                  舉球分配 · {activeTab === 'me' ? teamConfig.myName : teamConfig.opName} · 舉球員 {setters.map(s => `#${s}`).join(' ')}
+              </div>
+              {renderTable('輪轉', byRotation)}
+              {renderTable('接發品質', byQuality)}
+          </div>
+      );
+  };
+
+  // Attack origin (4/3/2/pipe) x landing zone, each cell = kills / errors / in play
+  const renderAttackTable = (sourceLogs: LogEntry[]) => {
+      const table = getAttackTable(sourceLogs);
+      const landings = Array.from(new Set(ATTACK_ORIGINS.flatMap(o => Object.keys(table[o]))))
+          .sort((a, b) => (a === 'OUT' ? 99 : Number(a)) - (b === 'OUT' ? 99 : Number(b)));
+      if (landings.length === 0) return null;
+
+      const directions = getAttackDirections(sourceLogs);
+      const directionLabels: Record<AttackDirection, string> = { line: '直線 (Line)', middle: '中間', cross: '斜線 (Cross)' };
+      const total = (cell: AttackCell) => cell.kill + cell.error + cell.inPlay;
+
+      return (
+          <div className="mt-4">
+              <div className="text-xs font-bold text-slate-400 uppercase mb-1">攻擊方向 (Origin → Zone)</div>
+              <div className="overflow-x-auto">
+                  <table className="w-full text-xs">
+                      <thead>
+                          <tr className="text-slate-400 font-bold border-b border-slate-100">
+                              <th className="text-left py-1 pr-2">起點</th>
+                              {landings.map(z => <th key={z} className="text-center py-1 px-1">{z === 'OUT' ? 'OUT' : `Z${z}`}</th>)}
+                          </tr>
+                      </thead>
+                      <tbody>
+                          {ATTACK_ORIGINS.filter(o => Object.keys(table[o]).length > 0).map(origin => (
+                              <tr key={origin} className="border-b border-slate-100 last:border-0">
+                                  <td className="py-2 pr-2 font-black text-slate-600">{origin === 'Pipe' ? 'Pipe' : `Z${origin}`}</td>
+                                  {landings.map(z => {
+                                      const cell = table[origin][z];
+                                      return (
+                                          <td key={z} className="text-center py-2 px-1 font-bold whitespace-nowrap">
+                                              {cell ? (
+                                                  <>
+                                                      <span className="text-emerald-600">{cell.kill}</span>
+                                                      <span className="text-slate-300">/</span>
+                                                      <span className="text-red-500">{cell.error}</span>
+                                                      <span className="text-slate-300">/</span>
+                                                      <span className="text-slate-500">{cell.inPlay}</span>
+                                                  </>
+                                              ) : <span className="text-slate-200">-</span>}
+                                          </td>
+                                      );
+                                  })}
+                              </tr>
+                          ))}
+                      </tbody>
+                  </table>
+              </div>
+              <div className="text-[10px] font-bold text-slate-400 mt-1">得分 / 失誤 / 續球 (Kill / Error / In play)</div>
+              {total(directions.line) + total(directions.middle) + total(directions.cross) > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-2">
+                      {(Object.keys(directionLabels) as AttackDirection[]).map(d => (
+                          <span key={d} className="text-xs font-bold bg-slate-100 text-slate-700 px-2 py-0.5 rounded-full">
+                              {directionLabels[d]} {total(directions[d])} <span className="text-emerald-600">({directions[d].kill}K)</span>
+                          </span>
+                      ))}
+                  </div>
+              )}
+          </div>
+      );
+  };
+
+  // Arrows / heatmap / dots switch (left out of the PNG export)
+  const renderChartModeToggle = () => (
+      <div className="flex gap-1" data-html2canvas-ignore="true">
+          {(Object.keys(CHART_MODE_LABELS) as ChartMode[]).map(mode => (
+              <button 
+                  key={mode}
+                  onClick={() => setChartMode(mode)}
+                  className={`px-2 py-0.5 rounded-full text-[10px] font-bold border transition-colors ${chartMode === mode ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-500 border-slate-200'}`}
+              >
+                  {CHART_MODE_LABELS[mode]}
+              </button>
+          ))}
+      </div>
+  );
+
   const handleDownloadImage = async () => {
     const element = document.getElementById('export-card');
     if (!element || isDownloading) return;
+    const subject = selectedPlayer ? `P${selectedPlayer}` : `${activeTab === 'me' ? teamConfig.myName : teamConfig.opName}_team`;
 
     setIsDownloading(true);
     try {
@@ -351,7 +936,7 @@ export const StatsOverlay: React.FC<StatsOverlayProps> = ({
         });
         
         const link = document.createElement('a');
-        const fileName = `${teamConfig.matchName || 'match'}_set${currentSet}_P${selectedPlayer}.png`;
+        const fileName = `${teamConfig.matchName || 'match'}_set${currentSet}_${subject}.png`;
         link.download = fileName;
         link.href = canvas.toDataURL('image/png');
         link.click();
@@ -412,18 +997,44 @@ export const StatsOverlay: React.FC<StatsOverlayProps> = ({
                       
                       {/* Shot Chart Visualizer */}
                       <div className="mb-6">
-                           <div className="text-xs font-bold text-slate-400 uppercase mb-2">Shot Chart (Attacks & Serves)</div>
+                           <div className="flex justify-between items-center mb-2">
+                               <div className="text-xs font-bold text-slate-400 uppercase">Shot Chart (Attacks & Serves) · {CHART_MODE_LABELS[chartMode]}</div>
+                               {renderChartModeToggle()}
+                           </div>
                            {renderShotChart(undefined, 'landscape')}
                       </div>
 
                       <div className="space-y-1">
                           {renderPlayerStatRow("攻擊得分 (Kills)", currentPlayerStats?.attackKills || 0, "text-emerald-600")}
                           {renderPlayerStatRow("攻擊總數 (Attacks)", currentPlayerStats?.attackTotal || 0)}
+                          {renderPlayerStatRow("攻擊失誤 (Errors)", currentPlayerStats?.attackErrors || 0, "text-red-500")}
+                          {renderPlayerStatRow("被攔死 (Blocked)", currentPlayerStats?.attackBlocked || 0, "text-red-500")}
+                          {renderPlayerStatRow("得分率 (Kill %)", `${(currentPlayerStats?.killPct || 0).toFixed(0)}%`, "text-emerald-600")}
+                          {renderPlayerStatRow("攻擊效率 (K-E-B)/TA", formatEfficiency(currentPlayerStats?.hittingEfficiency || 0), "text-blue-600")}
                           {renderPlayerStatRow("攔網得分 (Blocks)", currentPlayerStats?.blocks || 0, "text-blue-600")}
                           {renderPlayerStatRow("發球得分 (Aces)", currentPlayerStats?.serveAces || 0, "text-indigo-600")}
                           {renderPlayerStatRow("發球失誤 (Errors)", currentPlayerStats?.serveErrors || 0, "text-red-500")}
                           {renderPlayerStatRow("防守 (Digs)", currentPlayerStats?.digs || 0, "text-orange-500")}
                       </div>
+
+                      {currentPlayerStats && currentPlayerStats.reception.total > 0 && (
+                          <div className="mt-4">
+                              <div className="text-xs font-bold text-slate-400 uppercase mb-1">接發 (Reception)</div>
+                              {renderPlayerStatRow("接發次數 (Rec)", currentPlayerStats.reception.total)}
+                              {renderPlayerStatRow(`分佈 (${QUALITY_LEVELS.map(q => QUALITY_SYMBOLS[q]).join('/')})`, formatQualityCounts(currentPlayerStats.reception))}
+                              {renderPlayerStatRow("到位率 (#+ %)", `${currentPlayerStats.reception.perfectGoodPct.toFixed(0)}%`, "text-emerald-600")}
+                              {renderPlayerStatRow("接發評分 (0-3)", currentPlayerStats.reception.passerRating.toFixed(2), "text-blue-600")}
+                              {renderPlayerStatRow("被發球得分 (Aced)", currentPlayerStats.reception.errors, "text-red-500")}
+                          </div>
+                      )}
+
+                      <div className="mt-4">
+                          {renderQualityBreakdown(getPlayerLogs(selectedPlayer, activeTab))}
+                      </div>
+
+                      {renderZoneDistribution(getPlayerLogs(selectedPlayer, activeTab))}
+
+                      {renderAttackTable(getPlayerLogs(selectedPlayer, activeTab))}
                   </div>
                   
                   <button 
@@ -439,7 +1050,8 @@ export const StatsOverlay: React.FC<StatsOverlayProps> = ({
               <div className="p-4 pb-20">
                    
                    {/* Score Summary */}
-                   <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6 mb-4 flex items-center justify-between">
+                   <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6 mb-4">
+                   <div className="flex items-center justify-between">
                         <div className="text-center">
                             <div className="text-3xl font-black text-accent mb-1">{mySetWins}</div>
                             <div className="text-xs font-bold text-slate-400">SETS</div>
@@ -450,7 +1062,8 @@ export const StatsOverlay: React.FC<StatsOverlayProps> = ({
                                  <span className="text-slate-300 text-3xl">-</span>
                                  <span>{opScore}</span>
                              </div>
-                             <div className="text-xs font-bold text-slate-400 mt-2 bg-slate-100 px-3 py-1 rounded-full">SET {currentSet}</div>
+                             <div className="text-xs font-bold text-slate-400 mt-2 bg-slate-100 px-3 py-1 rounded-full">SET {currentSet} / {matchRules.setCount}</div>
+                             <div className="text-[10px] font-bold text-slate-400 mt-1">{RULE_PRESET_LABELS[matchRules.preset]} · {describeRules(matchRules)}</div>
                         </div>
                         <div className="text-center">
                             <div className="text-3xl font-black text-red-500 mb-1">{opSetWins}</div>
@@ -458,6 +1071,26 @@ export const StatsOverlay: React.FC<StatsOverlayProps> = ({
                         </div>
                    </div>
 
+                   {/* Completed Sets */}
+                   {setResults.length > 0 && (
+                       <div className="mt-4 pt-3 border-t border-slate-100">
+                           <div className="flex flex-wrap justify-center gap-2">
+                               {setResults.map(r => (
+                                   <div key={r.setNumber} className="flex flex-col items-center bg-slate-50 border border-slate-200 rounded-lg px-3 py-1">
+                                       <span className="text-[10px] font-bold text-slate-400">SET {r.setNumber}</span>
+                                       <span className="font-black text-slate-800">
+                                           <span className={r.winner === 'me' ? 'text-accent' : ''}>{r.myScore}</span>
+                                           <span className="text-slate-300 mx-1">-</span>
+                                           <span className={r.winner === 'op' ? 'text-red-500' : ''}>{r.opScore}</span>
+                                       </span>
+                                   </div>
+                               ))}
+                           </div>
+                           <div className="text-center text-xs font-bold text-slate-400 mt-2">{formatSetScores(setResults)}</div>
+                       </div>
+                   )}
+                   </div>
+
                    {/* Comparison Table */}
                    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-5 mb-4">
                         <div className="flex justify-between mb-4 border-b border-slate-100 pb-2">
@@ -467,13 +1100,77 @@ export const StatsOverlay: React.FC<StatsOverlayProps> = ({
                         <div className="space-y-1">
                             {renderComparisonRow("Points", myTeamStats.totalPoints, opTeamStats.totalPoints, myTeamStats.totalPoints > opTeamStats.totalPoints, opTeamStats.totalPoints > myTeamStats.totalPoints)}
                             {renderComparisonRow("Kills", myTeamStats.attackKills, opTeamStats.attackKills)}
+                            {renderComparisonRow("Att.Err", myTeamStats.attackErrors, opTeamStats.attackErrors)}
+                            {renderComparisonRow("Blocked", myTeamStats.attackBlocked, opTeamStats.attackBlocked)}
+                            {renderComparisonRow("Kill %", `${myTeamStats.killPct.toFixed(0)}%`, `${opTeamStats.killPct.toFixed(0)}%`, myTeamStats.killPct > opTeamStats.killPct, opTeamStats.killPct > myTeamStats.killPct)}
+                            {renderComparisonRow("Eff. (K-E-B)", formatEfficiency(myTeamStats.hittingEfficiency), formatEfficiency(opTeamStats.hittingEfficiency), myTeamStats.hittingEfficiency > opTeamStats.hittingEfficiency, opTeamStats.hittingEfficiency > myTeamStats.hittingEfficiency)}
                             {renderComparisonRow("Blocks", myTeamStats.blocks, opTeamStats.blocks)}
                             {renderComparisonRow("Aces", myTeamStats.serveAces, opTeamStats.serveAces)}
                             {renderComparisonRow("Digs", myTeamStats.digs, opTeamStats.digs)}
                             {renderComparisonRow("S.Err", myTeamStats.serveErrors, opTeamStats.serveErrors)}
+                            {renderComparisonRow("Opp.Err", myErrorPoints.total, opErrorPoints.total)}
+                            {renderComparisonRow("Side-out", formatPct(mySplit.sideOutWon, mySplit.sideOutTotal), formatPct(opSplit.sideOutWon, opSplit.sideOutTotal))}
+                            {renderComparisonRow("Break", formatPct(mySplit.breakWon, mySplit.breakTotal), formatPct(opSplit.breakWon, opSplit.breakTotal))}
                         </div>
                    </div>
 
+                   {/* Points From Opponent Errors (Active Tab) */}
+                   {renderOpponentErrors()}
+
+                   {/* Serve Targets (Active Tab, next to the Aces / S.Err comparison) */}
+                   {renderServeTargets()}
+
+                   {/* Team Shot Chart (Active Tab) */}
+                   <div id="export-card" className="bg-white rounded-2xl shadow-sm border border-slate-200 p-5 mb-4">
+                       <div className="flex justify-between items-center">
+                           <div className="text-xs font-bold text-slate-400 uppercase">
+                               Team Shot Chart · {activeTab === 'me' ? teamConfig.myName : teamConfig.opName} · {CHART_MODE_LABELS[chartMode]}
+                           </div>
+                           {renderChartModeToggle()}
+                       </div>
+                       {renderShotChart(getTeamLogs(activeTab), 'landscape')}
+                       {renderZoneDistribution(getTeamLogs(activeTab))}
+                       <button 
+                         onClick={handleDownloadImage}
+                         disabled={isDownloading}
+                         data-html2canvas-ignore="true"
+                         className="w-full mt-3 bg-slate-900 text-white py-2 rounded-xl font-bold text-sm active:scale-95 transition-all"
+                       >
+                          {isDownloading ? '匯出中...' : '📥 下載球隊落點圖'}
+                       </button>
+                   </div>
+
+                   {/* Rotation Side-out / Break (Active Tab) */}
+                   {renderRotationStats()}
+
+                   {/* Setter Distribution (Active Tab) */}
+                   {renderSetterDistribution()}
+
+                   {/* Rally Summary */}
+                   {renderRallySummary()}
+
+                   {/* Reception Comparison */}
+                   {renderReceptionComparison()}
+
+                   {/* Quality Distribution (Active Tab) */}
+                   {getTeamLogs(activeTab).some(l => l.action === ActionType.RECEIVE || l.action === ActionType.DIG || l.action === ActionType.SET) && (
+                       <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-5 mb-4">
+                           <div className="text-xs font-bold text-slate-400 uppercase mb-2">
+                               品質分佈 · {activeTab === 'me' ? teamConfig.myName : teamConfig.opName}
+                           </div>
+                           {renderQualityBreakdown(getTeamLogs(activeTab))}
+                       </div>
+                   )}
+
+                   {/* Libero Split (Active Tab) */}
+                   {renderLiberoStats()}
+
+                   {/* Substitution History (Active Tab) */}
+                   {renderSubHistory()}
+
+                   {/* Timeout History (Active Tab) */}
+                   {renderTimeoutHistory()}
+
                    {/* Player List */}
                    <div>
                        <div className="flex gap-2 mb-3">
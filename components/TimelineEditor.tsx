@@ -0,0 +1,297 @@
+import React, { useState } from 'react';
+import { LogEntry, TeamConfig, TeamSide, ActionType, ActionQuality, ResultType, Coordinate, FaultType, Position, TimelineEdit } from '../types';
+import { ACTION_LABELS, createLogId } from '../utils/logs';
+import { QUALITY_LEVELS, QUALITY_SYMBOLS } from '../utils/quality';
+import { FAULT_LABELS, FAULT_TYPES } from '../utils/faults';
+import { formatZone, getCourtZone, getEndZone, getStartZone } from '../utils/zones';
+
+interface TimelineEditorProps {
+  logs: LogEntry[];
+  teamConfig: TeamConfig;
+  onEdit: (edit: TimelineEdit) => void;
+  onBack: () => void;
+}
+
+// Actions that can be picked in the edit form
+const TOUCH_ACTIONS: ActionType[] = [ActionType.SERVE, ActionType.RECEIVE, ActionType.SET, ActionType.ATTACK, ActionType.BLOCK, ActionType.DIG];
+
+const RESULT_LABELS: Record<ResultType, string> = {
+  [ResultType.POINT]: '得分',
+  [ResultType.ERROR]: '失誤',
+  [ResultType.NORMAL]: '繼續',
+};
+
+// Entries that change the lineup are kept as logged (they cannot be edited or deleted)
+const isLineupEntry = (log: LogEntry) => log.action === ActionType.SUB || log.action === ActionType.LIBERO;
+const isEditable = (log: LogEntry) => TOUCH_ACTIONS.includes(log.action) || log.action === ActionType.TEAM_ERROR;
+
+// Draft of the entry being edited (coordinates are typed in as text)
+interface Draft {
+  index: number;      // Position in the log
+  isNew: boolean;     // Inserted before `index`
+  team: TeamSide;
+  playerNumber: string;
+  action: ActionType;
+  quality: ActionQuality;
+  result: ResultType;
+  fault: FaultType;
+  start: { x: string, y: string };
+  end: { x: string, y: string };
+}
+
+const toCoordText = (coord?: Coordinate) => ({ x: coord ? String(Math.round(coord.x)) : '', y: coord ? String(Math.round(coord.y)) : '' });
+
+const parseCoord = (text: { x: string, y: string }): Coordinate | undefined => {
+  if (text.x.trim() === '' || text.y.trim() === '') return undefined;
+  const x = Number(text.x);
+  const y = Number(text.y);
+  if (isNaN(x) || isNaN(y)) return undefined;
+  return { x: Math.min(100, Math.max(0, x)), y: Math.min(100, Math.max(0, y)) };
+};
+
+const getDraftZone = (text: { x: string, y: string }) => {
+  const coord = parseCoord(text);
+  return coord ? getCourtZone(coord) : undefined;
+};
+
+export const TimelineEditor: React.FC<TimelineEditorProps> = ({
+  logs,
+  teamConfig,
+  onEdit,
+  onBack
+}) => {
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<number | null>(null);
+
+  const getTeamName = (side: TeamSide) => side === 'me' ? (teamConfig.myName || '我方') : (teamConfig.opName || '對方');
+
+  const openEdit = (index: number) => {
+      const log = logs[index];
+      setDraft({
+          index,
+          isNew: false,
+          team: log.team,
+          playerNumber: log.playerNumber,
+          action: log.action,
+          quality: log.quality,
+          result: log.result,
+          fault: log.fault || 'OTHER',
+          start: toCoordText(log.startCoord),
+          end: toCoordText(log.endCoord)
+      });
+  };
+
+  const openInsert = (index: number) => {
+      setDraft({
+          index,
+          isNew: true,
+          team: logs[index].team,
+          playerNumber: '',
+          action: ActionType.ATTACK,
+          quality: ActionQuality.NORMAL,
+          result: ResultType.NORMAL,
+          fault: 'OTHER',
+          start: { x: '', y: '' },
+          end: { x: '', y: '' }
+      });
+  };
+
+  const handleDraftSave = () => {
+      if (!draft) return;
+      const isTeamError = draft.action === ActionType.TEAM_ERROR;
+      const playerNumber = isTeamError ? '' : draft.playerNumber.trim();
+      if (!isTeamError && !playerNumber) return;
+
+      const reference = logs[draft.index];
+      const base: LogEntry = draft.isNew
+          // Inserted entries join the rally and court of the entry that follows them
+          ? {
+              id: createLogId(logs),
+              timestamp: reference.timestamp,
+              setNumber: reference.setNumber,
+              myScore: reference.myScore,
+              opScore: reference.opScore,
+              playerNumber: '',
+              position: 1 as Position,
+              action: draft.action,
+              quality: draft.quality,
+              result: draft.result,
+              rallyId: reference.rallyId,
+              court: reference.court,
+              team: draft.team,
+              servingTeam: reference.servingTeam
+          }
+          : reference;
+
+      const startCoord = isTeamError ? undefined : parseCoord(draft.start);
+      const endCoord = isTeamError ? undefined : parseCoord(draft.end);
+      // Court position of the player when the entry was logged (kept when unknown)
+      const courtIndex = base.court?.lineups[draft.team].indexOf(playerNumber) ?? -1;
+      const position: Position | 'L' = courtIndex >= 0 ? (courtIndex + 1) as Position : base.position;
+
+      const edited: LogEntry = {
+          ...base,
+          team: draft.team,
+          playerNumber,
+          playerRole: playerNumber === base.playerNumber ? base.playerRole : undefined,
+          position,
+          action: draft.action,
+          quality: isTeamError ? ActionQuality.NORMAL : draft.quality,
+          result: isTeamError ? ResultType.ERROR : draft.result,
+          fault: isTeamError ? draft.fault : undefined,
+          startCoord,
+          endCoord,
+          startZone: startCoord ? getCourtZone(startCoord) : undefined,
+          endZone: endCoord ? getCourtZone(endCoord) : undefined
+      };
+
+      onEdit({ kind: draft.isNew ? 'INSERT' : 'UPDATE', index: draft.index, entry: edited });
+      setDraft(null);
+  };
+
+  const handleDelete = (index: number) => {
+      onEdit({ kind: 'DELETE', index });
+      setPendingDelete(null);
+  };
+
+  const describeEntry = (log: LogEntry) => {
+      if (log.action === ActionType.TEAM_ERROR) return `${ACTION_LABELS[log.action]} · ${FAULT_LABELS[log.fault || 'OTHER']}`;
+      if (isLineupEntry(log)) return `${ACTION_LABELS[log.action]} #${log.playerNumber} ⇄ #${log.subOut || '?'}`;
+      if (!log.playerNumber) return ACTION_LABELS[log.action] || log.action;
+      const zones = [getStartZone(log), getEndZone(log)].some(Boolean)
+          ? ` · ${formatZone(getStartZone(log)) || '-'} → ${formatZone(getEndZone(log)) || '-'}`
+          : '';
+      return `#${log.playerNumber} ${ACTION_LABELS[log.action] || log.action} ${QUALITY_SYMBOLS[log.quality] || ''}${zones}`;
+  };
+
+  const setNumbers = Array.from(new Set(logs.map(l => l.setNumber))).sort((a, b) => b - a);
+
+  const renderRow = (log: LogEntry, index: number) => {
+      const teamColor = log.team === 'me' ? 'text-accent' : 'text-red-400';
+      const resultColor = log.result === ResultType.POINT ? 'text-emerald-400' : log.result === ResultType.ERROR ? 'text-red-400' : 'text-gray-500';
+
+      return (
+          <div key={`${log.id}-${index}`} className="flex items-center gap-2 bg-neutral-800 border border-neutral-700 rounded-lg px-3 py-2">
+              <span className="font-mono font-bold text-white w-12 shrink-0">{log.myScore}-{log.opScore}</span>
+              <span className={`text-xs font-bold w-16 truncate shrink-0 ${teamColor}`}>{getTeamName(log.team)}</span>
+              <span className="text-sm text-gray-200 flex-1 truncate">{describeEntry(log)}</span>
+              {!isLineupEntry(log) && <span className={`text-xs font-bold shrink-0 ${resultColor}`}>{RESULT_LABELS[log.result]}</span>}
+              <div className="flex gap-1 shrink-0">
+                  <button onClick={() => openInsert(index)} className="px-2 py-1 rounded bg-neutral-700 text-gray-300 text-xs font-bold">插入</button>
+                  {isEditable(log) && (
+                      <button onClick={() => openEdit(index)} className="px-2 py-1 rounded bg-accent text-white text-xs font-bold">編輯</button>
+                  )}
+                  {isLineupEntry(log) ? (
+                      <span className="px-2 py-1 text-gray-500 text-xs font-bold">🔒 不可修改</span>
+                  ) : (
+                      <button onClick={() => setPendingDelete(index)} className="px-2 py-1 rounded bg-red-900/60 text-red-300 text-xs font-bold">刪除</button>
+                  )}
+              </div>
+          </div>
+      );
+  };
+
+  const renderDraftModal = () => {
+      if (!draft) return null;
+      const isTeamError = draft.action === ActionType.TEAM_ERROR;
+      const update = (patch: Partial<Draft>) => setDraft({ ...draft, ...patch });
+      const chip = (active: boolean) => `px-2 py-1.5 rounded-lg text-xs font-bold border ${active ? 'bg-accent border-accent text-white' : 'bg-neutral-900 border-neutral-600 text-gray-400'}`;
+      const coordInput = "w-14 text-center bg-neutral-900 border border-neutral-600 rounded-lg py-1.5 text-white text-sm focus:border-accent focus:outline-none";
+
+      return (
+        <div className="absolute inset-0 z-[10] bg-black/80 flex items-center justify-center animate-fade-in">
+            <div className="bg-neutral-800 p-5 rounded-2xl w-[360px] max-h-full overflow-y-auto shadow-xl border border-neutral-700 flex flex-col gap-3">
+                <h3 className="text-white font-bold text-lg text-center">{draft.isNew ? '插入紀錄' : '編輯紀錄'}</h3>
+
+                <div className="flex gap-2">
+                    {(['me', 'op'] as TeamSide[]).map(side => (
+                        <button key={side} onClick={() => update({ team: side })} className={`flex-1 ${chip(draft.team === side)}`}>{getTeamName(side)}</button>
+                    ))}
+                </div>
+
+                <div className="grid grid-cols-4 gap-1">
+                    {[...TOUCH_ACTIONS, ActionType.TEAM_ERROR].map(action => (
+                        <button key={action} onClick={() => update({ action })} className={chip(draft.action === action)}>{ACTION_LABELS[action]}</button>
+                    ))}
+                </div>
+
+                {isTeamError ? (
+                    <div className="grid grid-cols-5 gap-1">
+                        {FAULT_TYPES.map(fault => (
+                            <button key={fault} onClick={() => update({ fault })} className={chip(draft.fault === fault)}>{FAULT_LABELS[fault]}</button>
+                        ))}
+                    </div>
+                ) : (
+                    <>
+                        <input type="tel" value={draft.playerNumber} onChange={e => update({ playerNumber: e.target.value })} className="w-full text-center text-2xl font-black bg-neutral-900 border border-neutral-600 rounded-lg py-2 text-white focus:border-accent focus:outline-none" placeholder="#" />
+                        <div className="grid grid-cols-4 gap-1">
+                            {QUALITY_LEVELS.map(quality => (
+                                <button key={quality} onClick={() => update({ quality })} className={chip(draft.quality === quality)}>{QUALITY_SYMBOLS[quality]}</button>
+                            ))}
+                        </div>
+                        <div className="grid grid-cols-3 gap-1">
+                            {[ResultType.POINT, ResultType.NORMAL, ResultType.ERROR].map(result => (
+                                <button key={result} onClick={() => update({ result })} className={chip(draft.result === result)}>{RESULT_LABELS[result]}</button>
+                            ))}
+                        </div>
+                        {/* Court coordinates in % (x: 0-100 along the court, y: 0-100 across) */}
+                        {(['start', 'end'] as const).map(key => (
+                            <div key={key} className="flex items-center gap-2 text-xs text-gray-400">
+                                <span className="w-10 font-bold">{key === 'start' ? '起點' : '落點'}</span>
+                                <input type="number" value={draft[key].x} onChange={e => update({ [key]: { ...draft[key], x: e.target.value } })} className={coordInput} placeholder="x" />
+                                <input type="number" value={draft[key].y} onChange={e => update({ [key]: { ...draft[key], y: e.target.value } })} className={coordInput} placeholder="y" />
+                                <span className="font-mono">{formatZone(getDraftZone(draft[key])) || '-'}</span>
+                            </div>
+                        ))}
+                    </>
+                )}
+
+                <div className="flex gap-2 mt-1">
+                    <button onClick={() => setDraft(null)} className="flex-1 py-3 rounded-lg font-bold bg-neutral-700 text-gray-300">取消</button>
+                    <button onClick={handleDraftSave} className="flex-1 py-3 rounded-lg font-bold bg-accent text-white">確認</button>
+                </div>
+            </div>
+        </div>
+      );
+  };
+
+  return (
+    <div className="absolute inset-0 z-[100] bg-neutral-900/95 backdrop-blur flex flex-col p-6 animate-fade-in pl-[env(safe-area-inset-left)] pr-[env(safe-area-inset-right)]">
+        <div className="flex justify-between items-center mb-4 shrink-0">
+            <div>
+                <h2 className="text-2xl font-black text-white">時間軸</h2>
+                <p className="text-xs text-gray-500">修改紀錄後，該局的比分、發球權與輪轉會自動重新計算（已結束的局會更新局數比分）</p>
+                <p className="text-xs text-gray-500">換人與自由球員紀錄決定了之後的場上陣容，因此無法編輯或刪除</p>
+            </div>
+            <button onClick={onBack} className="bg-neutral-800 p-2 px-4 rounded-full text-white font-bold text-sm">✕ 關閉</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto pb-4 flex flex-col gap-4">
+            {logs.length === 0 && <p className="text-gray-500 text-center mt-8">尚無紀錄</p>}
+            {setNumbers.map(setNumber => (
+                <div key={setNumber} className="flex flex-col gap-1">
+                    <h3 className="text-white font-bold mb-1">第 {setNumber} 局</h3>
+                    {logs.map((log, index) => ({ log, index }))
+                        .filter(({ log }) => log.setNumber === setNumber)
+                        .reverse()
+                        .map(({ log, index }) => renderRow(log, index))}
+                </div>
+            ))}
+        </div>
+
+        {renderDraftModal()}
+        {pendingDelete !== null && (
+            <div className="absolute inset-0 z-[10] bg-black/80 flex items-center justify-center animate-fade-in">
+                <div className="bg-neutral-800 p-6 rounded-2xl w-64 shadow-xl border border-neutral-700">
+                    <h3 className="text-white font-bold text-lg text-center mb-1">刪除紀錄</h3>
+                    <p className="text-gray-400 text-sm text-center mb-4">{describeEntry(logs[pendingDelete])}</p>
+                    <div className="flex gap-2">
+                        <button onClick={() => setPendingDelete(null)} className="flex-1 py-3 rounded-lg font-bold bg-neutral-700 text-gray-300">取消</button>
+                        <button onClick={() => handleDelete(pendingDelete)} className="flex-1 py-3 rounded-lg font-bold bg-red-600 text-white">刪除</button>
+                    </div>
+                </div>
+            </div>
+        )}
+    </div>
+  );
+};
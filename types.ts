@@ -14,6 +14,17 @@ export interface Coordinate {
   y: number; // 0-100 percentage
 }
 
+// Standard court zones 1-9, each split into sub-zones A-D (see utils/zones.ts)
+export type Zone = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9;
+export type SubZone = 'A' | 'B' | 'C' | 'D';
+
+export interface CourtZone {
+  side: 'me' | 'op'; // Half of the court the point lies in
+  zone: Zone;
+  subZone: SubZone;
+  out?: boolean;     // Outside the court lines (zone is the nearest one)
+}
+
 export enum ActionType {
   SERVE = 'SERVE',
   ATTACK = 'ATTACK',
@@ -21,9 +32,18 @@ export enum ActionType {
   DIG = 'DIG',
   SET = 'SET',
   RECEIVE = 'RECEIVE',
-  SUB = 'SUB'
+  SUB = 'SUB',
+  LIBERO = 'LIBERO', // Libero replacement (not counted as a substitution)
+  TIMEOUT = 'TIMEOUT',
+  TEAM_ERROR = 'TEAM_ERROR', // Team / official fault without a player (net touch, foot fault, ...)
+  ADJUST = 'ADJUST'          // Manual score correction
 }
 
+export type FaultType = 'NET' | 'FOOT' | 'ROTATION' | 'HANDLING' | 'OTHER';
+
+// LIBERO entries: the libero comes in, goes out, or the two liberos swap (both players are liberos)
+export type LiberoChange = 'IN' | 'OUT' | 'SWAP';
+
 export enum ActionQuality {
   PERFECT = 'PERFECT', // #
   GOOD = 'GOOD',       // +
@@ -44,16 +64,33 @@ export interface LogEntry {
   myScore: number;
   opScore: number;
   playerNumber: string;
+  playerRole?: PlayerRole; // Role of the player when the action was logged
   position: Position | 'L'; // Updated to include Libero
   action: ActionType;
   quality: ActionQuality; 
   result: ResultType;
   startCoord?: Coordinate; // Optional: where the player was
   endCoord?: Coordinate;   // Where the ball landed
+  startZone?: CourtZone;
+  endZone?: CourtZone;
+  subOut?: string;         // SUB / LIBERO: player leaving the court (playerNumber is the one coming in)
+  fault?: FaultType;       // TEAM_ERROR: fault category
+  liberoChange?: LiberoChange; // LIBERO: which of the two players is the libero
+  rallyId?: number;        // Rally this touch belongs to (starts at the serve, closes on the point)
+  court?: CourtSnapshot;   // Who was on court when the entry was logged
   note?: string;
+  team: 'me' | 'op';       // Team that performed the action (or called the timeout / substitution)
   servingTeam: 'me' | 'op';
 }
 
+// Jersey numbers on court in position order 1-6 (libero applied)
+export type LineupSnapshot = string[];
+
+export interface CourtSnapshot {
+  rotation: Record<'me' | 'op', number>; // 1-6, 1 = rotation the team started the set in
+  lineups: Record<'me' | 'op', LineupSnapshot>;
+}
+
 export interface TeamConfig {
   matchName: string;
   myName: string;
@@ -62,7 +99,53 @@ export interface TeamConfig {
 
 export type TeamSide = 'me' | 'op';
 
-// State used for History (Undo/Redo) and Saving
+// Log entry as recorded by GameView; the game engine stamps set, score, serving team and court
+export type LogEntryInput = Omit<LogEntry, 'setNumber' | 'myScore' | 'opScore' | 'servingTeam' | 'court'>;
+
+// Change made in the timeline editor (index into the full log)
+export type TimelineEdit =
+  | { kind: 'UPDATE'; index: number; entry: LogEntry }
+  | { kind: 'INSERT'; index: number; entry: LogEntry } // Inserted before `index`
+  | { kind: 'DELETE'; index: number };
+
+// Match events replayed by the game engine (utils/engine.ts)
+export type GameEvent =
+  | { type: 'RALLY'; entry: LogEntryInput }   // Touch, team error or score adjustment (may win a point)
+  | { type: 'SUB'; entry: LogEntryInput }     // entry.playerNumber replaces entry.subOut at entry.position
+  | { type: 'LIBERO'; side: TeamSide; at: number; libero?: string; secondLibero?: string; entry?: LogEntryInput } // Libero swap / designation
+  | { type: 'TIMEOUT'; entry: LogEntryInput }
+  | { type: 'ROTATE'; side: TeamSide; at: number } // Manual rotation
+  | { type: 'END_SET'; at: number }
+  | { type: 'EDIT'; edit: TimelineEdit };
+
+export type RulesPreset = 'FIVB' | 'NCAA' | 'HIGH_SCHOOL' | 'YOUTH';
+
+// Competition rules chosen in SetupView (scoring, libero, ...)
+export interface MatchRules {
+  preset: RulesPreset;
+  setCount: number;          // Maximum number of sets (5 = best of 5)
+  setsToWin: number;         // Sets needed to win the match
+  pointsPerSet: number;      // Target points for a regular set
+  decidingSetPoints: number; // Target points for the last possible set
+  winBy: number;             // Required lead to close a set
+  liberoEnabled: boolean;    // Whether teams may designate a libero
+  subsPerSet: number;        // Substitutions allowed per team per set
+  timeoutsPerSet: number;    // Timeouts allowed per team per set
+  undoLimit: number;         // Undo steps kept in memory and in saves
+}
+
+// Final result of a completed set
+export interface SetResult {
+  setNumber: number;
+  myScore: number;
+  opScore: number;
+  winner: TeamSide;
+  startTime: number;
+  endTime: number;
+  firstServer: TeamSide;
+}
+
+// State derived by the game engine from the match events, also used for saving
 export interface GameState {
   currentSet: number; // Added: Current set number
   mySetWins: number;  // Added: Sets won by me
@@ -71,17 +154,35 @@ export interface GameState {
   opLineup: Lineup;
   myRoles: RoleMapping; // Added: Roles
   opRoles: RoleMapping; // Added: Roles
-  myLibero: string; // Added Libero
-  opLibero: string; // Added Libero
+  myLibero: string; // Added Libero (acting libero)
+  opLibero: string; // Added Libero (acting libero)
+  mySecondLibero: string; // Second designated libero (on the bench)
+  opSecondLibero: string;
   myScore: number;
   opScore: number;
   servingTeam: TeamSide;
   logs: LogEntry[];
+  setResults: SetResult[];     // Completed sets, in order
+  setStartedAt: number;        // Start time of the current set
+  setFirstServer: TeamSide;    // Team that served first in the current set
+  myRotation: number;          // Rotation index 1-6 within the current set
+  opRotation: number;
+}
+
+// Undo history stored with a save. The state before the first event usually shares its
+// logs with the saved state, in which case only their count is stored.
+export interface SavedHistory {
+  base: Omit<GameState, 'logs'>;
+  baseLogs: LogEntry[] | number;
+  events: GameEvent[];
+  cursor: number;
 }
 
 // Complete save object structure
 export interface SavedGame {
   config: TeamConfig;
+  rules?: MatchRules; // Optional: saves made before rules were configurable
   state: GameState;
+  history?: SavedHistory; // Optional: saves made before undo history was saved
   savedAt: number;
 }
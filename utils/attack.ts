@@ -0,0 +1,91 @@
+import { ActionType, LogEntry, ResultType, Zone } from '../types';
+import { getEndZone, getStartZone } from './zones';
+
+// Where the attack was hit from: front-row zones 4/3/2, or any back-row attack (pipe)
+export type AttackOrigin = '4' | '3' | '2' | 'Pipe';
+export const ATTACK_ORIGINS: AttackOrigin[] = ['4', '3', '2', 'Pipe'];
+
+export type AttackDirection = 'line' | 'middle' | 'cross';
+
+export interface AttackCell {
+  kill: number;
+  error: number;
+  inPlay: number;
+}
+
+// Landing zone columns seen from the receiving team: left 4/7/5, middle 3/8/6, right 2/9/1
+const LEFT_COLUMN: Zone[] = [4, 7, 5];
+const RIGHT_COLUMN: Zone[] = [2, 9, 1];
+
+export const getAttackOrigin = (log: LogEntry): AttackOrigin | null => {
+  const start = getStartZone(log);
+  if (!start) return null;
+  if (start.zone === 4 || start.zone === 3 || start.zone === 2) return String(start.zone) as AttackOrigin;
+  return 'Pipe';
+};
+
+// Line / cross only make sense for attacks from the antennas (zones 4 and 2)
+export const getAttackDirection = (origin: AttackOrigin, landing: Zone): AttackDirection | null => {
+  if (origin !== '4' && origin !== '2') return null;
+  // The attacker's left sideline (zone 4) runs down the receiver's right side, and vice versa
+  const lineColumn = origin === '4' ? RIGHT_COLUMN : LEFT_COLUMN;
+  const crossColumn = origin === '4' ? LEFT_COLUMN : RIGHT_COLUMN;
+  if (lineColumn.includes(landing)) return 'line';
+  if (crossColumn.includes(landing)) return 'cross';
+  return 'middle';
+};
+
+const addResult = (cell: AttackCell, log: LogEntry) => {
+  if (log.result === ResultType.POINT) cell.kill++;
+  else if (log.result === ResultType.ERROR) cell.error++;
+  else cell.inPlay++;
+};
+
+const emptyCell = (): AttackCell => ({ kill: 0, error: 0, inPlay: 0 });
+
+// Origin x landing zone ("OUT" for balls outside the court) with kill / error / in-play counts
+export const getAttackTable = (logs: LogEntry[]): Record<AttackOrigin, Record<string, AttackCell>> => {
+  const table = { '4': {}, '3': {}, '2': {}, 'Pipe': {} } as Record<AttackOrigin, Record<string, AttackCell>>;
+  logs.filter(l => l.action === ActionType.ATTACK).forEach(l => {
+    const origin = getAttackOrigin(l);
+    const landing = getEndZone(l);
+    if (!origin || !landing) return;
+    const key = landing.out ? 'OUT' : String(landing.zone);
+    table[origin][key] = table[origin][key] || emptyCell();
+    addResult(table[origin][key], l);
+  });
+  return table;
+};
+
+// Bookkeeping entries that are not touches of the ball
+const NON_TOUCH_ACTIONS = [ActionType.SUB, ActionType.LIBERO, ActionType.TIMEOUT, ActionType.ADJUST];
+
+// Attacks stuffed by the opponent: the touch right before an opponent BLOCK point is a kept-in-play attack
+export const getBlockedAttackIds = (logs: LogEntry[]): Set<string> => {
+  const blocked = new Set<string>();
+  logs.forEach((block, i) => {
+    if (block.action !== ActionType.BLOCK || block.result !== ResultType.POINT) return;
+    for (let j = i - 1; j >= 0 && logs[j].setNumber === block.setNumber; j--) {
+      const touch = logs[j];
+      if (NON_TOUCH_ACTIONS.includes(touch.action)) continue;
+      if (touch.action === ActionType.ATTACK && touch.result === ResultType.NORMAL && touch.team !== block.team) {
+        blocked.add(touch.id);
+      }
+      break;
+    }
+  });
+  return blocked;
+};
+
+// Line / middle / cross split of the attacks from zones 4 and 2 (balls landing in court)
+export const getAttackDirections = (logs: LogEntry[]): Record<AttackDirection, AttackCell> => {
+  const directions: Record<AttackDirection, AttackCell> = { line: emptyCell(), middle: emptyCell(), cross: emptyCell() };
+  logs.filter(l => l.action === ActionType.ATTACK).forEach(l => {
+    const origin = getAttackOrigin(l);
+    const landing = getEndZone(l);
+    if (!origin || !landing || landing.out) return;
+    const direction = getAttackDirection(origin, landing.zone);
+    if (direction) addResult(directions[direction], l);
+  });
+  return directions;
+};
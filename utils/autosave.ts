@@ -0,0 +1,40 @@
+import { GameState, MatchRules, SavedGame, TeamConfig } from '../types';
+import { GameHistory, toSavedHistory } from './engine';
+import { isMatchOver, normalizeRules } from './matchRules';
+
+// Running match, rewritten after every change (kept apart from the manual saves list)
+const AUTOSAVE_KEY = 'volleyscout_autosave';
+
+export const createSavedGame = (config: TeamConfig, rules: MatchRules, state: GameState, history: GameHistory): SavedGame => ({
+  config,
+  rules,
+  state,
+  history: toSavedHistory(history, state.logs),
+  savedAt: Date.now()
+});
+
+export const writeAutosave = (game: SavedGame) => {
+  try {
+    localStorage.setItem(AUTOSAVE_KEY, JSON.stringify(game));
+  } catch {
+    // Storage full or unavailable: the match keeps running, only the autosave is skipped
+  }
+};
+
+// Autosaved match that was left before its end (e.g. the tab was killed), if any
+export const readUnfinishedMatch = (): SavedGame | null => {
+  try {
+    const data = localStorage.getItem(AUTOSAVE_KEY);
+    if (!data) return null;
+    const saved: SavedGame = JSON.parse(data);
+    if (isMatchOver(normalizeRules(saved.rules), saved.state.mySetWins || 0, saved.state.opSetWins || 0)) return null;
+    return saved;
+  } catch {
+    // Unreadable autosave: start from the setup as if there was none
+    return null;
+  }
+};
+
+export const clearAutosave = () => {
+  localStorage.removeItem(AUTOSAVE_KEY);
+};
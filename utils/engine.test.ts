@@ -0,0 +1,269 @@
+import { describe, expect, it } from 'vitest';
+import { ActionQuality, ActionType, GameEvent, GameState, Lineup, LogEntryInput, MatchRules, ResultType, RoleMapping, TeamSide } from '../types';
+import { DEFAULT_MATCH_RULES } from './matchRules';
+import {
+  GameHistory, applyGameEvent, canApplyEdit, canRedo, canUndo, createHistory, createMatchState, fromSavedHistory, getHistoryState,
+  pushEvent, redoEvent, toSavedHistory, trimHistory, undoEvent
+} from './engine';
+
+const lineup = (prefix: string): Lineup => ({ 1: `${prefix}1`, 2: `${prefix}2`, 3: `${prefix}3`, 4: `${prefix}4`, 5: `${prefix}5`, 6: `${prefix}6` });
+const roles: RoleMapping = { 1: 'S', 2: 'OH', 3: 'MB', 4: 'OP', 5: 'OH', 6: 'MB' };
+
+const startMatch = (firstServer: TeamSide = 'me'): GameState => createMatchState({
+  lineups: { me: lineup('m'), op: lineup('o') },
+  roles: { me: roles, op: roles },
+  liberos: { me: '', op: '' },
+  secondLiberos: { me: '', op: '' },
+  firstServer
+}, 1000);
+
+let nextId = 0;
+const rally = (team: TeamSide, result: ResultType): GameEvent => {
+  nextId++;
+  const entry: LogEntryInput = {
+    id: `t${nextId}`,
+    timestamp: 2000 + nextId,
+    playerNumber: '',
+    position: 1,
+    action: ActionType.ATTACK,
+    quality: ActionQuality.NORMAL,
+    result,
+    team
+  };
+  return { type: 'RALLY', entry };
+};
+
+// Point for `side` via a kill
+const point = (side: TeamSide) => rally(side, ResultType.POINT);
+
+const play = (state: GameState, events: GameEvent[], rules: MatchRules = DEFAULT_MATCH_RULES) =>
+  events.reduce((s, e) => applyGameEvent(s, e, rules), state);
+
+const points = (side: TeamSide, count: number) => Array.from({ length: count }, () => point(side));
+
+describe('side-out and rotation', () => {
+  it('keeps the serve and rotation when the serving team scores', () => {
+    const state = play(startMatch('me'), [point('me')]);
+    expect(state.myScore).toBe(1);
+    expect(state.servingTeam).toBe('me');
+    expect(state.myRotation).toBe(1);
+    expect(state.myLineup).toEqual(lineup('m'));
+  });
+
+  it('rotates the receiving team when it wins the serve', () => {
+    const state = play(startMatch('me'), [point('op')]);
+    expect(state.opScore).toBe(1);
+    expect(state.servingTeam).toBe('op');
+    expect(state.opRotation).toBe(2);
+    expect(state.opLineup[1]).toBe('o2');
+    expect(state.opLineup[6]).toBe('o1');
+    expect(state.opRoles[1]).toBe(roles[2]);
+    expect(state.myRotation).toBe(1);
+  });
+
+  it('awards an error to the other team', () => {
+    const state = play(startMatch('me'), [rally('me', ResultType.ERROR)]);
+    expect(state.opScore).toBe(1);
+    expect(state.servingTeam).toBe('op');
+    expect(state.opRotation).toBe(2);
+  });
+
+  it('wraps the rotation index after six side-outs', () => {
+    const events = Array.from({ length: 6 }, () => [point('op'), point('me')]).flat();
+    const state = play(startMatch('me'), events);
+    expect(state.myRotation).toBe(1);
+    expect(state.opRotation).toBe(1);
+    expect(state.myLineup).toEqual(lineup('m'));
+  });
+
+  it('stamps each entry with the score after it and the court before it', () => {
+    const state = play(startMatch('me'), [point('op')]);
+    const entry = state.logs[state.logs.length - 1];
+    expect(entry.opScore).toBe(1);
+    expect(entry.servingTeam).toBe('op');
+    expect(entry.court?.rotation.op).toBe(1);
+  });
+});
+
+describe('set and match end', () => {
+  const endSet: GameEvent = { type: 'END_SET', at: 5000 };
+
+  it('does not close a set before the target is reached with a 2-point lead', () => {
+    const atTarget = play(startMatch(), [...points('me', 24), ...points('op', 24), point('me')]);
+    expect(atTarget.myScore).toBe(25);
+    expect(play(atTarget, [endSet]).currentSet).toBe(1);
+
+    const closed = play(atTarget, [point('me'), endSet]);
+    expect(closed.currentSet).toBe(2);
+    expect(closed.mySetWins).toBe(1);
+    expect(closed.setResults).toHaveLength(1);
+    expect(closed.setResults[0]).toMatchObject({ myScore: 26, opScore: 24, winner: 'me', endTime: 5000 });
+  });
+
+  it('starts the next set at 0-0 with the other team serving', () => {
+    const state = play(startMatch('me'), [...points('op', 25), endSet]);
+    expect(state.myScore).toBe(0);
+    expect(state.opScore).toBe(0);
+    expect(state.setFirstServer).toBe('op');
+    expect(state.servingTeam).toBe('op');
+    expect(state.myRotation).toBe(1);
+    expect(state.setStartedAt).toBe(5000);
+  });
+
+  it('plays the deciding set to 15 and ends the match', () => {
+    const twoAll = play(startMatch(), [
+      ...points('me', 25), endSet,
+      ...points('op', 25), endSet,
+      ...points('me', 25), endSet,
+      ...points('op', 25), endSet
+    ]);
+    expect(twoAll.currentSet).toBe(5);
+
+    const decided = play(twoAll, [...points('me', 15), endSet]);
+    expect(decided.mySetWins).toBe(3);
+    expect(decided.setResults).toHaveLength(5);
+    // The court stays on the final set
+    expect(decided.currentSet).toBe(5);
+    expect(decided.myScore).toBe(15);
+  });
+
+  it('ignores set ends once the match is over', () => {
+    const won = play(startMatch(), [...points('me', 25), endSet, ...points('me', 25), endSet, ...points('me', 25), endSet]);
+    expect(won.mySetWins).toBe(3);
+    const again = play(won, [endSet]);
+    expect(again).toBe(won);
+  });
+});
+
+describe('timeline edits', () => {
+  const endSet: GameEvent = { type: 'END_SET', at: 5000 };
+  // One point decides a set, so a single edit can hand it to the other team
+  const winByOne: MatchRules = { ...DEFAULT_MATCH_RULES, winBy: 1 };
+
+  // Turns the entry into a point for the other team
+  const flip = (state: GameState, index: number): GameEvent => {
+    const entry = state.logs[index];
+    return { type: 'EDIT', edit: { kind: 'UPDATE', index, entry: { ...entry, team: entry.team === 'me' ? 'op' : 'me' } } };
+  };
+  const lastKill = (state: GameState, setNumber: number) =>
+    state.logs.findIndex(l => l.setNumber === setNumber && l.action === ActionType.ATTACK && l.myScore === 25);
+
+  it('updates the result of a finished set that keeps its winner', () => {
+    const state = play(startMatch('me'), [...points('me', 25), ...points('op', 20), endSet, point('op')]);
+    const opKill = state.logs.findIndex(l => l.setNumber === 1 && l.team === 'op' && l.action === ActionType.ATTACK);
+    const edited = play(state, [flip(state, opKill)]);
+    expect(edited.setResults[0]).toMatchObject({ myScore: 26, opScore: 19, winner: 'me' });
+    expect(edited.mySetWins).toBe(1);
+    // The running set is untouched
+    expect(edited.currentSet).toBe(2);
+    expect(edited.opScore).toBe(1);
+  });
+
+  it('rejects an edit that leaves a finished set without a winner', () => {
+    const state = play(startMatch('me'), [...points('op', 23), ...points('me', 25), endSet]);
+    const edit = flip(state, lastKill(state, 1));
+    expect(edit.type === 'EDIT' && canApplyEdit(state, edit.edit, DEFAULT_MATCH_RULES)).toBe(false);
+    expect(play(state, [edit])).toBe(state);
+  });
+
+  it('recounts the set wins when a finished set changes winner', () => {
+    const state = play(startMatch('me'), [...points('op', 24), ...points('me', 25), endSet, point('op')], winByOne);
+    const edited = play(state, [flip(state, lastKill(state, 1))], winByOne);
+    expect(edited.setResults[0]).toMatchObject({ myScore: 24, opScore: 25, winner: 'op' });
+    expect(edited.mySetWins).toBe(0);
+    expect(edited.opSetWins).toBe(1);
+  });
+
+  it('rejects an edit that changes the outcome of a decided match', () => {
+    const won = play(startMatch('me'), [
+      ...points('op', 24), ...points('me', 25), endSet,
+      ...points('me', 25), endSet,
+      ...points('me', 25), endSet
+    ], winByOne);
+    expect(won.mySetWins).toBe(3);
+    const edit = flip(won, lastKill(won, 1));
+    expect(play(won, [edit], winByOne)).toBe(won);
+  });
+
+  it('does not close a set that already has a result', () => {
+    const state = play(startMatch('me'), points('me', 25));
+    const recorded: GameState = { ...state, setResults: [{ setNumber: 1, myScore: 25, opScore: 0, winner: 'me', startTime: 1000, endTime: 4000, firstServer: 'me' }] };
+    expect(play(recorded, [endSet])).toBe(recorded);
+  });
+});
+
+describe('history', () => {
+  const rules = DEFAULT_MATCH_RULES;
+  const build = (count: number): GameHistory => Array.from({ length: count }, (_, i) => point(i % 2 ? 'op' : 'me'))
+    .reduce((h, e) => pushEvent(h, e), createHistory(startMatch('me')));
+
+  it('moves the cursor on undo and redo', () => {
+    const history = build(3);
+    expect(getHistoryState(history, rules).myScore + getHistoryState(history, rules).opScore).toBe(3);
+
+    const undone = undoEvent(undoEvent(history));
+    expect(undone.cursor).toBe(1);
+    expect(undone.events).toHaveLength(3);
+    expect(canRedo(undone)).toBe(true);
+    expect(getHistoryState(undone, rules).myScore).toBe(1);
+    expect(getHistoryState(undone, rules).opScore).toBe(0);
+
+    const redone = redoEvent(undone);
+    expect(redone.cursor).toBe(2);
+    expect(getHistoryState(redone, rules).opScore).toBe(1);
+  });
+
+  it('stops at both ends of the list', () => {
+    const empty = createHistory(startMatch());
+    expect(canUndo(empty)).toBe(false);
+    expect(undoEvent(empty)).toBe(empty);
+    const history = build(1);
+    expect(canRedo(history)).toBe(false);
+    expect(redoEvent(history)).toBe(history);
+  });
+
+  it('drops undone events when a new event is pushed', () => {
+    const history = pushEvent(undoEvent(undoEvent(build(3))), point('op'));
+    expect(history.events).toHaveLength(2);
+    expect(history.cursor).toBe(2);
+    expect(canRedo(history)).toBe(false);
+  });
+
+  it('folds the oldest events into the base at the undo limit', () => {
+    const limited = { ...rules, undoLimit: 3 };
+    const full = build(7);
+    const trimmed = trimHistory(full, limited);
+    expect(trimmed.events).toHaveLength(3);
+    expect(trimmed.cursor).toBe(3);
+    expect(trimmed.base.myScore + trimmed.base.opScore).toBe(4);
+    expect(getHistoryState(trimmed, limited)).toEqual(getHistoryState(full, limited));
+
+    // Under the limit nothing changes
+    const short = build(2);
+    expect(trimHistory(short, limited)).toBe(short);
+  });
+
+  it('round-trips through a save with compact base logs', () => {
+    const history = trimHistory(build(6), { ...rules, undoLimit: 2 });
+    const state = getHistoryState(history, rules);
+    const saved = toSavedHistory(history, state.logs);
+    expect(saved.baseLogs).toBe(history.base.logs.length);
+
+    const json = JSON.parse(JSON.stringify({ state, saved }));
+    const restored = fromSavedHistory(json.saved, json.state.logs);
+    expect(restored.cursor).toBe(2);
+    expect(getHistoryState(restored, rules)).toEqual(JSON.parse(JSON.stringify(state)));
+    expect(getHistoryState(undoEvent(restored), rules).logs).toHaveLength(state.logs.length - 1);
+  });
+
+  it('stores the base logs in full after a timeline edit', () => {
+    const history = build(3);
+    const first = getHistoryState(history, rules).logs.findIndex(l => l.action === ActionType.ATTACK);
+    // The edit rewrites the scores of the set, so the base logs are no longer a prefix of the saved logs
+    const trimmed = trimHistory(pushEvent(history, { type: 'EDIT', edit: { kind: 'DELETE', index: first } }), { ...rules, undoLimit: 1 });
+    const state = getHistoryState(trimmed, rules);
+    expect(Array.isArray(toSavedHistory(trimmed, state.logs).baseLogs)).toBe(true);
+    const restored = fromSavedHistory(toSavedHistory(trimmed, state.logs), state.logs);
+    expect(getHistoryState(restored, rules)).toEqual(state);
+  });
+});
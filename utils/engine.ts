@@ -0,0 +1,338 @@
+import { GameEvent, GameState, Lineup, LogEntry, LogEntryInput, MatchRules, Position, RoleMapping, SavedHistory, TeamSide, TimelineEdit, CourtSnapshot } from '../types';
+import { getMatchWinner, getSetWinner, isMatchOver } from './matchRules';
+import { applyLibero, buildLiberoLogs, getLiberoPosition } from './libero';
+import { getNextRotation, rotateMapping, shiftRotation, toLineupSnapshot } from './rotation';
+import { applyTimelineEdit, getScoreChange, recomputeSet } from './timeline';
+
+// Headless game engine: the match is an ordered list of events and GameState is derived
+// by replaying them. Undo/redo only move the cursor over the list.
+
+const SIDES: TeamSide[] = ['me', 'op'];
+
+export const getInitialLineup = (): Lineup => ({ 1: '', 2: '', 3: '', 4: '', 5: '', 6: '' });
+export const getInitialRoles = (): RoleMapping => ({ 1: '?', 2: '?', 3: '?', 4: '?', 5: '?', 6: '?' });
+
+export const getInitialGameState = (): GameState => ({
+  currentSet: 1,
+  mySetWins: 0,
+  opSetWins: 0,
+  myLineup: getInitialLineup(),
+  opLineup: getInitialLineup(),
+  myRoles: getInitialRoles(),
+  opRoles: getInitialRoles(),
+  myLibero: '',
+  opLibero: '',
+  mySecondLibero: '',
+  opSecondLibero: '',
+  myScore: 0,
+  opScore: 0,
+  servingTeam: 'me',
+  logs: [],
+  setResults: [],
+  setStartedAt: 0,
+  setFirstServer: 'me',
+  myRotation: 1,
+  opRotation: 1
+});
+
+// Fills fields missing from saves made by older versions
+export const normalizeGameState = (state: GameState): GameState => ({
+  ...state,
+  currentSet: state.currentSet || 1,
+  mySetWins: state.mySetWins || 0,
+  opSetWins: state.opSetWins || 0,
+  myRoles: state.myRoles || getInitialRoles(),
+  opRoles: state.opRoles || getInitialRoles(),
+  myLibero: state.myLibero || '',
+  opLibero: state.opLibero || '',
+  mySecondLibero: state.mySecondLibero || '',
+  opSecondLibero: state.opSecondLibero || '',
+  setResults: state.setResults || [],
+  setStartedAt: state.setStartedAt || Date.now(),
+  setFirstServer: state.setFirstServer || state.servingTeam,
+  myRotation: state.myRotation || 1,
+  opRotation: state.opRotation || 1
+});
+
+// --- Team accessors (GameState keeps my/op fields side by side) ---
+
+interface TeamState {
+  lineup: Lineup;
+  roles: RoleMapping;
+  libero: string;
+  secondLibero: string;
+  rotation: number;
+}
+
+const getTeam = (state: GameState, side: TeamSide): TeamState => side === 'me'
+  ? { lineup: state.myLineup, roles: state.myRoles, libero: state.myLibero, secondLibero: state.mySecondLibero, rotation: state.myRotation }
+  : { lineup: state.opLineup, roles: state.opRoles, libero: state.opLibero, secondLibero: state.opSecondLibero, rotation: state.opRotation };
+
+const withTeam = (state: GameState, side: TeamSide, update: Partial<TeamState>): GameState => {
+  const team = { ...getTeam(state, side), ...update };
+  return side === 'me'
+    ? { ...state, myLineup: team.lineup, myRoles: team.roles, myLibero: team.libero, mySecondLibero: team.secondLibero, myRotation: team.rotation }
+    : { ...state, opLineup: team.lineup, opRoles: team.roles, opLibero: team.libero, opSecondLibero: team.secondLibero, opRotation: team.rotation };
+};
+
+const getLiberoPos = (state: GameState, side: TeamSide): Position | null => {
+  const team = getTeam(state, side);
+  return getLiberoPosition(team.lineup, team.roles, team.libero, state.servingTeam === side);
+};
+
+// On-court snapshot (rotation + lineups with the libero in place) stamped on log entries
+export const getCourtSnapshot = (state: GameState): CourtSnapshot => {
+  const getCourtLineup = (side: TeamSide) => {
+    const team = getTeam(state, side);
+    return toLineupSnapshot(applyLibero(team.lineup, getLiberoPos(state, side), team.libero));
+  };
+  return { rotation: { me: state.myRotation, op: state.opRotation }, lineups: { me: getCourtLineup('me'), op: getCourtLineup('op') } };
+};
+
+// --- Rules ---
+
+// Rotation: the player in position 2 moves to position 1 (roles travel with the players)
+const rotateTeam = (state: GameState, side: TeamSide): GameState => {
+  const team = getTeam(state, side);
+  return withTeam(state, side, {
+    lineup: rotateMapping(team.lineup, 1),
+    roles: rotateMapping(team.roles, 1),
+    rotation: getNextRotation(team.rotation)
+  });
+};
+
+// Awards the entry's point (if any). Side-out: the receiving team wins the serve and rotates.
+const scorePoint = (state: GameState, entry: LogEntryInput): GameState => {
+  const change = getScoreChange(entry);
+  if (!change) return state;
+
+  const score = change.side === 'me' ? state.myScore : state.opScore;
+  const next = change.side === 'me'
+    ? { ...state, myScore: Math.max(0, score + change.delta) }
+    : { ...state, opScore: Math.max(0, score + change.delta) };
+  if (change.delta < 0 || change.side === state.servingTeam) return next;
+  return rotateTeam({ ...next, servingTeam: change.side }, change.side);
+};
+
+// Entries are stamped with the court they were played on and the score after them
+const appendEntry = (before: GameState, after: GameState, entry: LogEntryInput): GameState => ({
+  ...after,
+  logs: [...after.logs, {
+    ...entry,
+    setNumber: before.currentSet,
+    myScore: after.myScore,
+    opScore: after.opScore,
+    servingTeam: after.servingTeam,
+    court: getCourtSnapshot(before)
+  }]
+});
+
+// Libero entries/exits caused by a change of lineup, roles or serve (stamped with the court that follows)
+const appendLiberoLogs = (before: GameState, after: GameState, timestamp: number): GameState => {
+  const base = { timestamp, setNumber: after.currentSet, myScore: after.myScore, opScore: after.opScore, servingTeam: after.servingTeam };
+  const court = getCourtSnapshot(after);
+  const liberoLogs: LogEntry[] = SIDES.flatMap(side => buildLiberoLogs(
+    { lineup: getTeam(before, side).lineup, liberoPos: getLiberoPos(before, side) },
+    { lineup: getTeam(after, side).lineup, liberoPos: getLiberoPos(after, side) },
+    getTeam(after, side).libero || getTeam(before, side).libero,
+    base,
+    side
+  )).map(l => ({ ...l, court }));
+  return liberoLogs.length > 0 ? { ...after, logs: [...after.logs, ...liberoLogs] } : after;
+};
+
+// Libero entries at the start of a set (nobody is replaced before the first serve)
+const appendSetStartLiberoLogs = (state: GameState, timestamp: number): GameState => {
+  return appendLiberoLogs({ ...state, myLibero: '', opLibero: '' }, state, timestamp);
+};
+
+// Lineups chosen in SetupView
+export interface MatchSetup {
+  lineups: Record<TeamSide, Lineup>;
+  roles: Record<TeamSide, RoleMapping>;
+  liberos: Record<TeamSide, string>;
+  secondLiberos: Record<TeamSide, string>;
+  firstServer: TeamSide;
+}
+
+export const createMatchState = (setup: MatchSetup, startedAt: number): GameState => {
+  const state: GameState = {
+    ...getInitialGameState(),
+    myLineup: setup.lineups.me,
+    opLineup: setup.lineups.op,
+    myRoles: setup.roles.me,
+    opRoles: setup.roles.op,
+    myLibero: setup.liberos.me,
+    opLibero: setup.liberos.op,
+    mySecondLibero: setup.secondLiberos.me,
+    opSecondLibero: setup.secondLiberos.op,
+    servingTeam: setup.firstServer,
+    setFirstServer: setup.firstServer,
+    setStartedAt: startedAt
+  };
+  return appendSetStartLiberoLogs(state, startedAt);
+};
+
+export const applyGameEvent = (state: GameState, event: GameEvent, rules: MatchRules): GameState => {
+  switch (event.type) {
+    case 'RALLY': {
+      const next = scorePoint(state, event.entry);
+      return appendLiberoLogs(state, appendEntry(state, next, event.entry), event.entry.timestamp);
+    }
+    case 'SUB': {
+      const side = event.entry.team;
+      const lineup = { ...getTeam(state, side).lineup, [event.entry.position]: event.entry.playerNumber };
+      const next = withTeam(state, side, { lineup });
+      return appendLiberoLogs(state, appendEntry(state, next, event.entry), event.entry.timestamp);
+    }
+    case 'LIBERO': {
+      const team = getTeam(state, event.side);
+      const next = withTeam(state, event.side, {
+        libero: event.libero ?? team.libero,
+        secondLibero: event.secondLibero ?? team.secondLibero
+      });
+      const logged = event.entry ? appendEntry(state, next, event.entry) : next;
+      return appendLiberoLogs(state, logged, event.at);
+    }
+    case 'TIMEOUT':
+      return appendEntry(state, state, event.entry);
+    case 'ROTATE':
+      return appendLiberoLogs(state, rotateTeam(state, event.side), event.at);
+    case 'END_SET': {
+      // Only a finished set (target reached with the required lead) of a running match can be closed, once
+      if (isMatchOver(rules, state.mySetWins, state.opSetWins)) return state;
+      if (state.setResults.some(r => r.setNumber === state.currentSet)) return state;
+      const winner = getSetWinner(rules, state.currentSet, state.myScore, state.opScore);
+      if (!winner) return state;
+
+      const closed: GameState = {
+        ...state,
+        mySetWins: state.mySetWins + (winner === 'me' ? 1 : 0),
+        opSetWins: state.opSetWins + (winner === 'op' ? 1 : 0),
+        setResults: [...state.setResults, {
+          setNumber: state.currentSet,
+          myScore: state.myScore,
+          opScore: state.opScore,
+          winner,
+          startTime: state.setStartedAt,
+          endTime: event.at,
+          firstServer: state.setFirstServer
+        }]
+      };
+      // Match decided: the court stays as it is so the final result can be shown
+      if (isMatchOver(rules, closed.mySetWins, closed.opSetWins)) return closed;
+
+      // Serve alternates between sets
+      const nextFirstServer: TeamSide = state.setFirstServer === 'me' ? 'op' : 'me';
+      return appendSetStartLiberoLogs({
+        ...closed,
+        currentSet: state.currentSet + 1,
+        myScore: 0,
+        opScore: 0,
+        servingTeam: nextFirstServer,
+        setFirstServer: nextFirstServer,
+        setStartedAt: event.at,
+        myRotation: 1,
+        opRotation: 1
+      }, event.at);
+    }
+    case 'EDIT':
+      return applyEdit(state, event.edit, rules) ?? state;
+  }
+};
+
+// Replays the edited set from its first entry with the team that served first in it. Returns null
+// when the edit would leave a finished set without a winner or change the outcome of the match
+// (an over match would need its sets reopened, a running one could end in the middle of a set).
+const applyEdit = (state: GameState, edit: TimelineEdit, rules: MatchRules): GameState | null => {
+  const setNumber = edit.kind === 'DELETE' ? state.logs[edit.index]?.setNumber : edit.entry.setNumber;
+  if (setNumber === undefined) return null;
+  const finished = state.setResults.find(r => r.setNumber === setNumber);
+  const firstServer = setNumber === state.currentSet ? state.setFirstServer : finished?.firstServer ?? state.setFirstServer;
+  const result = recomputeSet(state.logs, applyTimelineEdit(state.logs, edit), setNumber, firstServer);
+
+  // A finished set keeps its result entry in step with the new score; the set wins follow from it
+  let setResults = state.setResults;
+  if (finished) {
+    const winner = getSetWinner(rules, setNumber, result.myScore, result.opScore);
+    if (!winner) return null;
+    setResults = state.setResults.map(r => r === finished ? { ...r, myScore: result.myScore, opScore: result.opScore, winner } : r);
+  }
+  const mySetWins = setResults.filter(r => r.winner === 'me').length;
+  const opSetWins = setResults.filter(r => r.winner === 'op').length;
+  if (isMatchOver(rules, mySetWins, opSetWins) !== isMatchOver(rules, state.mySetWins, state.opSetWins)) return null;
+  if (getMatchWinner(rules, mySetWins, opSetWins) !== getMatchWinner(rules, state.mySetWins, state.opSetWins)) return null;
+
+  const next: GameState = { ...state, logs: result.logs, setResults, mySetWins, opSetWins };
+  // Lineups of later sets are left as they were entered, so only the current set moves the players on court
+  if (setNumber !== state.currentSet) return next;
+
+  return SIDES.reduce((s, side) => {
+    const team = getTeam(s, side);
+    const shift = result.rotationShift[side];
+    return withTeam(s, side, {
+      lineup: rotateMapping(team.lineup, shift),
+      roles: rotateMapping(team.roles, shift),
+      rotation: shiftRotation(team.rotation, shift)
+    });
+  }, { ...next, myScore: result.myScore, opScore: result.opScore, servingTeam: result.servingTeam });
+};
+
+// Whether a timeline edit can be applied (see applyEdit)
+export const canApplyEdit = (state: GameState, edit: TimelineEdit, rules: MatchRules): boolean => {
+  return applyEdit(state, edit, rules) !== null;
+};
+
+// --- History (undo/redo as cursor movement) ---
+
+export interface GameHistory {
+  base: GameState;     // State before the first event (match start or loaded save)
+  events: GameEvent[];
+  cursor: number;      // Number of events applied; the ones after it can be redone
+}
+
+export const createHistory = (base: GameState): GameHistory => ({ base, events: [], cursor: 0 });
+
+// A new event drops the events that were undone
+export const pushEvent = (history: GameHistory, event: GameEvent): GameHistory => ({
+  ...history,
+  events: [...history.events.slice(0, history.cursor), event],
+  cursor: history.cursor + 1
+});
+
+export const canUndo = (history: GameHistory): boolean => history.cursor > 0;
+export const canRedo = (history: GameHistory): boolean => history.cursor < history.events.length;
+
+export const undoEvent = (history: GameHistory): GameHistory => canUndo(history) ? { ...history, cursor: history.cursor - 1 } : history;
+export const redoEvent = (history: GameHistory): GameHistory => canRedo(history) ? { ...history, cursor: history.cursor + 1 } : history;
+
+// Keeps at most `rules.undoLimit` undo steps: the oldest events are folded into the base state
+export const trimHistory = (history: GameHistory, rules: MatchRules): GameHistory => {
+  const dropped = history.cursor - Math.max(0, rules.undoLimit);
+  if (dropped <= 0) return history;
+  return {
+    base: history.events.slice(0, dropped).reduce((state, event) => applyGameEvent(state, event, rules), history.base),
+    events: history.events.slice(dropped),
+    cursor: history.cursor - dropped
+  };
+};
+
+export const getHistoryState = (history: GameHistory, rules: MatchRules): GameState => {
+  return history.events.slice(0, history.cursor).reduce((state, event) => applyGameEvent(state, event, rules), history.base);
+};
+
+// --- Saved history ---
+
+// `logs` are the logs of the state being saved (the state at the cursor)
+export const toSavedHistory = (history: GameHistory, logs: LogEntry[]): SavedHistory => {
+  const { logs: baseLogs, ...base } = history.base;
+  // Events only append entries unless the timeline was edited
+  const isPrefix = baseLogs.length <= logs.length && baseLogs.every((l, i) => logs[i] === l);
+  return { base, baseLogs: isPrefix ? baseLogs.length : baseLogs, events: history.events, cursor: history.cursor };
+};
+
+export const fromSavedHistory = (saved: SavedHistory, logs: LogEntry[]): GameHistory => ({
+  base: { ...saved.base, logs: typeof saved.baseLogs === 'number' ? logs.slice(0, saved.baseLogs) : saved.baseLogs },
+  events: saved.events,
+  cursor: Math.min(saved.cursor, saved.events.length)
+});
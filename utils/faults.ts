@@ -0,0 +1,33 @@
+import { ActionType, FaultType, LogEntry, ResultType, TeamSide } from '../types';
+
+export const FAULT_TYPES: FaultType[] = ['NET', 'FOOT', 'ROTATION', 'HANDLING', 'OTHER'];
+
+export const FAULT_LABELS: Record<FaultType, string> = {
+  NET: '觸網',
+  FOOT: '踩線',
+  ROTATION: '輪轉',
+  HANDLING: '持球',
+  OTHER: '其他',
+};
+
+export interface OpponentErrorPoints {
+  total: number;
+  byAction: Record<string, number>;   // Player errors by action (serve, attack, ...)
+  byFault: Record<FaultType, number>; // Team / official errors by fault category
+}
+
+// Points a team received from the other team's errors (player errors and team faults)
+export const getOpponentErrorPoints = (logs: LogEntry[], side: TeamSide): OpponentErrorPoints => {
+  const byAction: Record<string, number> = {};
+  const byFault = { NET: 0, FOOT: 0, ROTATION: 0, HANDLING: 0, OTHER: 0 } as Record<FaultType, number>;
+  let total = 0;
+
+  logs.forEach(l => {
+    if (l.team === side || l.result !== ResultType.ERROR || l.action === ActionType.ADJUST) return;
+    total++;
+    if (l.action === ActionType.TEAM_ERROR) byFault[l.fault || 'OTHER']++;
+    else byAction[l.action] = (byAction[l.action] || 0) + 1;
+  });
+
+  return { total, byAction, byFault };
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { ActionQuality, ActionType, LogEntry, ResultType } from '../types';
+import { buildLiberoLogs, getLoggedLiberos } from './libero';
+
+const base = { timestamp: 1000, setNumber: 1, myScore: 0, opScore: 0, servingTeam: 'op' as const };
+const lineup = { 1: '1', 2: '2', 3: '3', 4: '4', 5: '5', 6: '6' };
+
+describe('getLoggedLiberos', () => {
+  it('reads the libero from automatic replacements in both directions', () => {
+    const entering = buildLiberoLogs({ lineup, liberoPos: null }, { lineup, liberoPos: 6 }, 'L1', base, 'me');
+    const leaving = buildLiberoLogs({ lineup, liberoPos: 6 }, { lineup, liberoPos: null }, 'L1', base, 'me');
+    expect(entering.map(l => l.liberoChange)).toEqual(['IN']);
+    expect(leaving.map(l => l.liberoChange)).toEqual(['OUT']);
+    expect(getLoggedLiberos(leaving, 'me')).toEqual(['L1']);
+    expect(getLoggedLiberos([...entering, ...leaving], 'op')).toEqual([]);
+  });
+
+  it('lists both liberos of a swap and ignores entries without a direction', () => {
+    const entry = (liberoChange?: LogEntry['liberoChange']): LogEntry => ({
+      ...base,
+      id: `${liberoChange}`,
+      playerNumber: '12',
+      subOut: '7',
+      position: 'L',
+      action: ActionType.LIBERO,
+      quality: ActionQuality.NORMAL,
+      result: ResultType.NORMAL,
+      team: 'me',
+      liberoChange
+    });
+    expect(getLoggedLiberos([entry('SWAP')], 'me')).toEqual(['12', '7']);
+    expect(getLoggedLiberos([entry()], 'me')).toEqual([]);
+  });
+});
@@ -0,0 +1,70 @@
+import { ActionQuality, ActionType, Lineup, LiberoChange, LogEntry, Position, ResultType, RoleMapping, TeamSide } from '../types';
+
+const BACK_ROW: Position[] = [5, 6, 1];
+
+// The libero replaces the back-row middle blocker. In position 1 the MB serves,
+// so the libero only takes that spot while the team is receiving.
+export const getLiberoPosition = (lineup: Lineup, roles: RoleMapping, libero: string, isServing: boolean): Position | null => {
+  if (!libero) return null;
+  const pos = BACK_ROW.find(p => roles[p] === 'MB' && lineup[p] !== '' && !(p === 1 && isServing));
+  return pos ?? null;
+};
+
+// Lineup as seen on court, with the libero in place of the replaced player
+export const applyLibero = (lineup: Lineup, liberoPos: Position | null, libero: string): Lineup => {
+  if (liberoPos === null) return lineup;
+  return { ...lineup, [liberoPos]: libero };
+};
+
+interface LiberoSnapshot {
+  lineup: Lineup;
+  liberoPos: Position | null;
+}
+
+// Builds LIBERO log entries for the libero leaving and/or entering between two states
+export const buildLiberoLogs = (
+  before: LiberoSnapshot,
+  after: LiberoSnapshot,
+  libero: string,
+  base: Pick<LogEntry, 'timestamp' | 'setNumber' | 'myScore' | 'opScore' | 'servingTeam'>,
+  side: TeamSide
+): LogEntry[] => {
+  const replacedBefore = before.liberoPos !== null ? before.lineup[before.liberoPos] : null;
+  const replacedAfter = after.liberoPos !== null ? after.lineup[after.liberoPos] : null;
+  if (replacedBefore === replacedAfter) return [];
+
+  const createLog = (liberoChange: LiberoChange, playerNumber: string, subOut: string, position: Position): LogEntry => ({
+    ...base,
+    id: `${base.timestamp}-${side}-${liberoChange.toLowerCase()}`,
+    team: side,
+    playerNumber,
+    subOut,
+    position,
+    action: ActionType.LIBERO,
+    quality: ActionQuality.NORMAL,
+    result: ResultType.NORMAL,
+    liberoChange
+  });
+
+  const entries: LogEntry[] = [];
+  if (replacedBefore) {
+    // The replaced player comes back wherever the rotation has taken them
+    const returnPos = (Object.keys(after.lineup).map(Number) as Position[]).find(p => after.lineup[p] === replacedBefore);
+    entries.push(createLog('OUT', replacedBefore, libero, returnPos ?? before.liberoPos!));
+  }
+  if (replacedAfter) {
+    entries.push(createLog('IN', libero, replacedAfter, after.liberoPos!));
+  }
+  return entries;
+};
+
+// Liberos of a team in the order they appear in its LIBERO entries
+export const getLoggedLiberos = (logs: LogEntry[], side: TeamSide): string[] => {
+  const liberos = new Set<string>();
+  logs.forEach(log => {
+    if (log.team !== side || log.action !== ActionType.LIBERO) return;
+    if ((log.liberoChange === 'IN' || log.liberoChange === 'SWAP') && log.playerNumber) liberos.add(log.playerNumber);
+    if ((log.liberoChange === 'OUT' || log.liberoChange === 'SWAP') && log.subOut) liberos.add(log.subOut);
+  });
+  return Array.from(liberos);
+};
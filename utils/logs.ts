@@ -0,0 +1,75 @@
+import { ActionType, LiberoChange, LogEntry, ResultType, TeamConfig, TeamSide } from '../types';
+
+// Action Dictionary for Chinese translation
+export const ACTION_LABELS: Record<string, string> = {
+  [ActionType.SERVE]: '發球',
+  [ActionType.ATTACK]: '攻擊',
+  [ActionType.BLOCK]: '攔網',
+  [ActionType.DIG]: '接扣',
+  [ActionType.SET]: '舉球',
+  [ActionType.RECEIVE]: '接發',
+  [ActionType.SUB]: '換人',
+  [ActionType.LIBERO]: '自由替換',
+  [ActionType.TIMEOUT]: '暫停',
+  [ActionType.TEAM_ERROR]: '團隊失誤',
+  [ActionType.ADJUST]: '手動調整',
+};
+
+// Timestamp-based id that no entry of the log uses yet (entries logged in the same millisecond get a suffix)
+export const createLogId = (logs: LogEntry[]): string => {
+  const base = `${Date.now()}`;
+  const used = new Set(logs.map(l => l.id));
+  let id = base;
+  for (let n = 1; used.has(id); n++) id = `${base}-${n}`;
+  return id;
+};
+
+export const getTeamLogs = (logs: LogEntry[], side: TeamSide): LogEntry[] => {
+  return logs.filter(l => l.team === side);
+};
+
+// Saves made before logs carried `team` kept the acting team's name in `note`.
+// Manual score adjustments ("Manual Adjust +1") used to be stored as player-less ATTACK entries;
+// they become ADJUST entries attributed to the team whose score changed.
+const migrateTeam = (log: LogEntry, previous: LogEntry | null, config: TeamConfig): LogEntry => {
+  const isManualAdjust = log.note?.startsWith('Manual Adjust') && !log.playerNumber;
+  const action = isManualAdjust ? ActionType.ADJUST : log.action;
+  if (log.team) return action === log.action ? log : { ...log, action };
+
+  // The team whose score changed since the previous entry tells who won the point; the note
+  // is only used for entries without a point (both teams may share the same name)
+  const myScored = log.myScore !== (previous?.myScore || 0);
+  const opScored = log.opScore !== (previous?.opScore || 0);
+  const scorer: TeamSide | null = myScored ? 'me' : opScored ? 'op' : null;
+  let team: TeamSide;
+  if (isManualAdjust) team = scorer || 'op';
+  else if (scorer && log.result === ResultType.POINT) team = scorer;
+  else if (scorer && log.result === ResultType.ERROR) team = scorer === 'me' ? 'op' : 'me';
+  else if (log.note === config.myName) team = 'me';
+  else if (log.note === config.opName) team = 'op';
+  else team = 'op';
+  // The team name is no longer duplicated in the note
+  const note = log.note === config.myName || log.note === config.opName ? undefined : log.note;
+  return { ...log, action, team, note };
+};
+
+// LIBERO entries saved before they carried `liberoChange`: the liberos designated in the save tell
+// which of the two players is the libero
+const getLegacyLiberoChange = (log: LogEntry, liberos: string[]): LiberoChange | undefined => {
+  const isIn = liberos.includes(log.playerNumber);
+  const isOut = !!log.subOut && liberos.includes(log.subOut);
+  if (isIn && isOut) return 'SWAP';
+  if (isIn) return 'IN';
+  if (isOut) return 'OUT';
+  return undefined;
+};
+
+export const migrateLogs = (logs: LogEntry[], config: TeamConfig, liberos: Record<TeamSide, string[]>): LogEntry[] => {
+  return logs.map((log, i) => {
+    const previous = i > 0 && logs[i - 1].setNumber === log.setNumber ? logs[i - 1] : null;
+    const migrated = migrateTeam(log, previous, config);
+    if (migrated.action !== ActionType.LIBERO || migrated.liberoChange) return migrated;
+    const liberoChange = getLegacyLiberoChange(migrated, liberos[migrated.team].filter(Boolean));
+    return liberoChange ? { ...migrated, liberoChange } : migrated;
+  });
+};
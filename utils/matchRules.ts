@@ -0,0 +1,67 @@
+import { MatchRules, RulesPreset, SetResult, TeamSide } from '../types';
+
+export const MATCH_RULE_PRESETS: Record<RulesPreset, MatchRules> = {
+  // Indoor FIVB: best of 5, sets to 25, deciding set to 15
+  FIVB: { preset: 'FIVB', setCount: 5, setsToWin: 3, pointsPerSet: 25, decidingSetPoints: 15, winBy: 2, liberoEnabled: true, subsPerSet: 6, timeoutsPerSet: 2, undoLimit: 30 },
+  NCAA: { preset: 'NCAA', setCount: 5, setsToWin: 3, pointsPerSet: 25, decidingSetPoints: 15, winBy: 2, liberoEnabled: true, subsPerSet: 15, timeoutsPerSet: 2, undoLimit: 30 },
+  // High school: best of 3, deciding set to 15
+  HIGH_SCHOOL: { preset: 'HIGH_SCHOOL', setCount: 3, setsToWin: 2, pointsPerSet: 25, decidingSetPoints: 15, winBy: 2, liberoEnabled: true, subsPerSet: 18, timeoutsPerSet: 2, undoLimit: 30 },
+  // Youth tournaments: two sets to 25 are always played, a 1-1 split is a draw
+  YOUTH: { preset: 'YOUTH', setCount: 2, setsToWin: 2, pointsPerSet: 25, decidingSetPoints: 25, winBy: 2, liberoEnabled: false, subsPerSet: 12, timeoutsPerSet: 2, undoLimit: 30 },
+};
+
+export const RULE_PRESET_LABELS: Record<RulesPreset, string> = {
+  FIVB: '國際 FIVB',
+  NCAA: 'NCAA',
+  HIGH_SCHOOL: '高中',
+  YOUTH: '青少年',
+};
+
+export const DEFAULT_MATCH_RULES: MatchRules = MATCH_RULE_PRESETS.FIVB;
+
+// Fills rules missing from older saves with the defaults
+export const normalizeRules = (rules?: Partial<MatchRules>): MatchRules => ({
+  ...DEFAULT_MATCH_RULES,
+  ...rules
+});
+
+// Short summary for the setup screen, e.g. "5局3勝 · 25/15分"
+export const describeRules = (rules: MatchRules): string => {
+  const format = rules.setsToWin * 2 - 1 === rules.setCount
+    ? `${rules.setCount}局${rules.setsToWin}勝`
+    : `${rules.setCount}局制`;
+  return `${format} · ${rules.pointsPerSet}/${rules.decidingSetPoints}分`;
+};
+
+export const isDecidingSet = (rules: MatchRules, setNumber: number): boolean => {
+  return setNumber >= rules.setCount;
+};
+
+export const getSetTargetPoints = (rules: MatchRules, setNumber: number): number => {
+  return isDecidingSet(rules, setNumber) ? rules.decidingSetPoints : rules.pointsPerSet;
+};
+
+// Returns the team that has closed the set, or null while the set is still running
+export const getSetWinner = (rules: MatchRules, setNumber: number, myScore: number, opScore: number): TeamSide | null => {
+  const target = getSetTargetPoints(rules, setNumber);
+  if (myScore >= target && myScore - opScore >= rules.winBy) return 'me';
+  if (opScore >= target && opScore - myScore >= rules.winBy) return 'op';
+  return null;
+};
+
+// Returns the match winner once a team has collected enough sets
+export const getMatchWinner = (rules: MatchRules, mySetWins: number, opSetWins: number): TeamSide | null => {
+  if (mySetWins >= rules.setsToWin) return 'me';
+  if (opSetWins >= rules.setsToWin) return 'op';
+  return null;
+};
+
+// A match is over when a team has won it or every set has been played (draws are possible)
+export const isMatchOver = (rules: MatchRules, mySetWins: number, opSetWins: number): boolean => {
+  return getMatchWinner(rules, mySetWins, opSetWins) !== null || mySetWins + opSetWins >= rules.setCount;
+};
+
+// e.g. "25-21, 23-25, 15-12" (always from my team's point of view)
+export const formatSetScores = (results: SetResult[]): string => {
+  return results.map(r => `${r.myScore}-${r.opScore}`).join(', ');
+};
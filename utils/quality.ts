@@ -0,0 +1,22 @@
+import { ActionQuality, LogEntry } from '../types';
+
+// Best to worst, as shown in the result panel
+export const QUALITY_LEVELS: ActionQuality[] = [ActionQuality.PERFECT, ActionQuality.GOOD, ActionQuality.NORMAL, ActionQuality.POOR];
+
+export const QUALITY_SYMBOLS: Record<ActionQuality, string> = {
+  [ActionQuality.PERFECT]: '#',
+  [ActionQuality.GOOD]: '+',
+  [ActionQuality.NORMAL]: '!',
+  [ActionQuality.POOR]: '-',
+};
+
+export const getQualityCounts = (logs: LogEntry[]): Record<ActionQuality, number> => {
+  const counts: Record<ActionQuality, number> = {
+    [ActionQuality.PERFECT]: 0,
+    [ActionQuality.GOOD]: 0,
+    [ActionQuality.NORMAL]: 0,
+    [ActionQuality.POOR]: 0,
+  };
+  logs.forEach(l => { counts[l.quality || ActionQuality.NORMAL]++; });
+  return counts;
+};
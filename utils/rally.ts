@@ -0,0 +1,53 @@
+import { ActionType, LogEntry, ResultType, TeamSide } from '../types';
+
+export interface Rally {
+  id: number;
+  setNumber: number;
+  entries: LogEntry[];     // In the order they were logged
+  touches: LogEntry[];     // Entries made by a player (manual score adjustments excluded)
+  winner: TeamSide | null; // null while the rally is still open
+}
+
+const getLastRallyLog = (logs: LogEntry[]): LogEntry | undefined => {
+  for (let i = logs.length - 1; i >= 0; i--) {
+    if (logs[i].rallyId !== undefined) return logs[i];
+  }
+  return undefined;
+};
+
+// A rally stays open until one of its entries wins or loses the point
+export const getOpenRallyId = (logs: LogEntry[]): number | null => {
+  const last = getLastRallyLog(logs);
+  return last && last.result === ResultType.NORMAL ? last.rallyId! : null;
+};
+
+// A serve always starts a new rally; other touches join the open rally (or start one when the serve was not logged)
+export const getRallyIdFor = (logs: LogEntry[], action: ActionType): number => {
+  const openId = getOpenRallyId(logs);
+  if (action !== ActionType.SERVE && openId !== null) return openId;
+  return (getLastRallyLog(logs)?.rallyId || 0) + 1;
+};
+
+// The team whose score went up on the closing entry (also covers manual score adjustments)
+const getRallyWinner = (logs: LogEntry[], last: LogEntry): TeamSide | null => {
+  if (last.result === ResultType.NORMAL) return null;
+  const index = logs.indexOf(last);
+  const previous = index > 0 && logs[index - 1].setNumber === last.setNumber ? logs[index - 1] : null;
+  return last.myScore > (previous?.myScore || 0) ? 'me' : 'op';
+};
+
+export const groupRallies = (logs: LogEntry[]): Rally[] => {
+  const rallies = new Map<number, LogEntry[]>();
+  logs.forEach(l => {
+    if (l.rallyId === undefined) return;
+    rallies.set(l.rallyId, [...(rallies.get(l.rallyId) || []), l]);
+  });
+
+  return Array.from(rallies.entries()).map(([id, entries]) => ({
+    id,
+    setNumber: entries[0].setNumber,
+    entries,
+    touches: entries.filter(l => l.playerNumber),
+    winner: getRallyWinner(logs, entries[entries.length - 1])
+  }));
+};
@@ -0,0 +1,38 @@
+import { ActionQuality, ActionType, LogEntry, ResultType } from '../types';
+import { getQualityCounts } from './quality';
+
+// Passer rating scale: # = 3, + = 2, ! = 1, - = 0 (a reception error / ace is also 0)
+const PASS_RATING: Record<ActionQuality, number> = {
+  [ActionQuality.PERFECT]: 3,
+  [ActionQuality.GOOD]: 2,
+  [ActionQuality.NORMAL]: 1,
+  [ActionQuality.POOR]: 0,
+};
+
+export const getPassRating = (log: LogEntry): number => {
+  return log.result === ResultType.ERROR ? 0 : PASS_RATING[log.quality] ?? 1;
+};
+
+export interface ReceptionSummary {
+  total: number;
+  counts: Record<ActionQuality, number>; // Quality of the receptions kept in play
+  errors: number;                         // Receptions that lost the point (aced)
+  perfectGoodPct: number;                 // (# + +) / total, 0-100
+  passerRating: number;                   // Average on the 0-3 scale
+}
+
+export const getReceptionSummary = (logs: LogEntry[]): ReceptionSummary => {
+  const receptions = logs.filter(l => l.action === ActionType.RECEIVE);
+  const errors = receptions.filter(l => l.result === ResultType.ERROR);
+  const counts = getQualityCounts(receptions.filter(l => l.result !== ResultType.ERROR));
+  const total = receptions.length;
+  const ratingSum = receptions.reduce((sum, l) => sum + getPassRating(l), 0);
+
+  return {
+    total,
+    counts,
+    errors: errors.length,
+    perfectGoodPct: total > 0 ? ((counts[ActionQuality.PERFECT] + counts[ActionQuality.GOOD]) / total) * 100 : 0,
+    passerRating: total > 0 ? ratingSum / total : 0
+  };
+};
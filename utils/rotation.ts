@@ -0,0 +1,100 @@
+import { Lineup, LineupSnapshot, LogEntry, Position, SetResult, TeamSide } from '../types';
+
+// Indoor 6-a-side: MatchRules does not change the number of court positions
+const POSITIONS: Position[] = [1, 2, 3, 4, 5, 6];
+
+export const toLineupSnapshot = (lineup: Lineup): LineupSnapshot => POSITIONS.map(p => lineup[p]);
+
+export const fromLineupSnapshot = (snapshot: LineupSnapshot): Lineup => ({
+  1: snapshot[0] || '', 2: snapshot[1] || '', 3: snapshot[2] || '', 4: snapshot[3] || '', 5: snapshot[4] || '', 6: snapshot[5] || ''
+});
+
+export const getNextRotation = (rotation: number): number => rotation % 6 + 1;
+
+const mod6 = (value: number) => ((value % 6) + 6) % 6;
+
+// Rotation index moved by `steps` rotations (negative = backwards)
+export const shiftRotation = (rotation: number, steps: number): number => mod6(rotation - 1 + steps) + 1;
+
+// Items in position order 1-6 rotated `steps` times (clockwise, P2 -> P1), negative = backwards
+const rotateItems = <T,>(items: T[], steps: number): T[] => items.map((_, i) => items[mod6(i + steps)]);
+
+export const rotateSnapshot = (snapshot: LineupSnapshot, steps: number): LineupSnapshot => rotateItems(snapshot, steps);
+
+export const rotateMapping = <T,>(mapping: Record<Position, T>, steps: number): Record<Position, T> => {
+  const rotated = rotateItems(POSITIONS.map(p => mapping[p]), steps);
+  return { 1: rotated[0], 2: rotated[1], 3: rotated[2], 4: rotated[3], 5: rotated[4], 6: rotated[5] };
+};
+
+// One scored point with the serving team and both rotations at the start of the rally
+export interface PointRecord {
+  setNumber: number;
+  winner: TeamSide;
+  server: TeamSide;
+  rotation: Record<TeamSide, number>; // 1 = rotation the team started the set in
+  position1?: Record<TeamSide, string>;  // Player in position 1 (only for entries with a court snapshot)
+}
+
+export interface RotationSplit {
+  sideOutWon: number;
+  sideOutTotal: number;
+  breakWon: number;
+  breakTotal: number;
+}
+
+export const getFirstServers = (setResults: SetResult[], currentSet: number, currentFirstServer: TeamSide): Record<number, TeamSide> => {
+  const servers: Record<number, TeamSide> = { [currentSet]: currentFirstServer };
+  setResults.forEach(r => { servers[r.setNumber] = r.firstServer; });
+  return servers;
+};
+
+// Replays the score line: a team rotates each time it wins the serve back (side-out).
+// Entries with a court snapshot use the recorded rotation instead.
+export const getPointRecords = (logs: LogEntry[], firstServers: Record<number, TeamSide>): PointRecord[] => {
+  const points: PointRecord[] = [];
+  let setNumber = 0;
+  let prev = { me: 0, op: 0 };
+  let server: TeamSide = 'me';
+  let rotation: Record<TeamSide, number> = { me: 1, op: 1 };
+
+  logs.forEach(l => {
+    if (l.setNumber !== setNumber) {
+      setNumber = l.setNumber;
+      prev = { me: 0, op: 0 };
+      server = firstServers[setNumber] || l.servingTeam;
+      rotation = { me: 1, op: 1 };
+    }
+
+    const winner: TeamSide | null = l.myScore > prev.me ? 'me' : l.opScore > prev.op ? 'op' : null;
+    prev = { me: l.myScore, op: l.opScore };
+    if (!winner) return;
+
+    if (l.court) rotation = { ...l.court.rotation };
+    points.push({
+      setNumber, winner, server, rotation: { ...rotation },
+      position1: l.court ? { me: l.court.lineups.me[0], op: l.court.lineups.op[0] } : undefined
+    });
+    if (winner !== server) {
+      rotation[winner] = getNextRotation(rotation[winner]);
+      server = winner;
+    }
+  });
+
+  return points;
+};
+
+export const getTeamSplit = (points: PointRecord[], side: TeamSide): RotationSplit => {
+  const receiving = points.filter(p => p.server !== side);
+  const serving = points.filter(p => p.server === side);
+  return {
+    sideOutWon: receiving.filter(p => p.winner === side).length,
+    sideOutTotal: receiving.length,
+    breakWon: serving.filter(p => p.winner === side).length,
+    breakTotal: serving.length
+  };
+};
+
+// Side-out / break-point split for rotations 1-6 of one team
+export const getRotationSplits = (points: PointRecord[], side: TeamSide): RotationSplit[] => {
+  return [1, 2, 3, 4, 5, 6].map(r => getTeamSplit(points.filter(p => p.rotation[side] === r), side));
+};
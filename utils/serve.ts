@@ -0,0 +1,67 @@
+import { ActionType, LogEntry, ResultType, TeamSide } from '../types';
+import { getPassRating } from './reception';
+import { getEndZone } from './zones';
+
+export interface ServeOutcome {
+  serve: LogEntry;
+  reception?: LogEntry; // Opponent reception in the same rally
+  ace: boolean;         // Service ace, or the receiver was aced
+  error: boolean;
+}
+
+export interface ServeTargetRow {
+  target: string; // Landing zone ("5", "OUT") or receiver number
+  total: number;
+  aces: number;
+  errors: number;
+  passRatingSum: number; // Opponent pass ratings (0-3), aces count as 0
+  passCount: number;
+}
+
+export const getServeOutcomes = (logs: LogEntry[], side: TeamSide): ServeOutcome[] => {
+  return logs
+    .filter(l => l.action === ActionType.SERVE && l.team === side)
+    .map(serve => {
+      const reception = serve.rallyId === undefined ? undefined : logs.find(l =>
+        l.rallyId === serve.rallyId && l.action === ActionType.RECEIVE && l.team !== side
+      );
+      return {
+        serve,
+        reception,
+        ace: serve.result === ResultType.POINT || reception?.result === ResultType.ERROR,
+        error: serve.result === ResultType.ERROR
+      };
+    });
+};
+
+const buildRows = (outcomes: ServeOutcome[], getTarget: (o: ServeOutcome) => string | null): ServeTargetRow[] => {
+  const rows = new Map<string, ServeTargetRow>();
+  outcomes.forEach(o => {
+    const target = getTarget(o);
+    if (!target) return;
+    const row = rows.get(target) || { target, total: 0, aces: 0, errors: 0, passRatingSum: 0, passCount: 0 };
+    row.total++;
+    if (o.ace) row.aces++;
+    if (o.error) row.errors++;
+    if (o.reception) {
+      row.passRatingSum += getPassRating(o.reception);
+      row.passCount++;
+    } else if (o.ace) {
+      row.passCount++;
+    }
+    rows.set(target, row);
+  });
+  return Array.from(rows.values()).sort((a, b) => b.total - a.total);
+};
+
+export const getServeTargetsByZone = (outcomes: ServeOutcome[]): ServeTargetRow[] => {
+  return buildRows(outcomes, o => {
+    const zone = getEndZone(o.serve);
+    if (!zone) return null;
+    return zone.out ? 'OUT' : String(zone.zone);
+  });
+};
+
+export const getServeTargetsByReceiver = (outcomes: ServeOutcome[]): ServeTargetRow[] => {
+  return buildRows(outcomes, o => o.reception?.playerNumber || null);
+};
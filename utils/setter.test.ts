@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { ActionQuality, ActionType, LogEntry, ResultType, TeamSide } from '../types';
+import { getSetterDeliveries } from './setter';
+
+let nextId = 0;
+const touch = (team: TeamSide, action: ActionType, quality: ActionQuality = ActionQuality.NORMAL): LogEntry => {
+  nextId++;
+  return {
+    id: `s${nextId}`,
+    timestamp: 1000 + nextId,
+    setNumber: 1,
+    myScore: 0,
+    opScore: 0,
+    playerNumber: String(nextId),
+    position: 4,
+    action,
+    quality,
+    result: ResultType.NORMAL,
+    rallyId: 1,
+    team,
+    servingTeam: 'op'
+  };
+};
+
+describe('getSetterDeliveries', () => {
+  it('files the first attack under the reception quality', () => {
+    const logs = [
+      touch('op', ActionType.SERVE),
+      touch('me', ActionType.RECEIVE, ActionQuality.PERFECT),
+      touch('me', ActionType.SET),
+      touch('me', ActionType.ATTACK)
+    ];
+    expect(getSetterDeliveries(logs, 'me').map(d => d.receptionQuality)).toEqual([ActionQuality.PERFECT]);
+  });
+
+  it('treats attacks after a dig as transition', () => {
+    const logs = [
+      touch('op', ActionType.SERVE),
+      touch('me', ActionType.RECEIVE, ActionQuality.PERFECT),
+      touch('me', ActionType.SET),
+      touch('me', ActionType.ATTACK),
+      touch('op', ActionType.ATTACK),
+      touch('me', ActionType.DIG, ActionQuality.POOR),
+      touch('me', ActionType.SET),
+      touch('me', ActionType.ATTACK)
+    ];
+    expect(getSetterDeliveries(logs, 'me').map(d => d.receptionQuality)).toEqual([ActionQuality.PERFECT, null]);
+  });
+
+  it('treats a second attack without a logged dig as transition', () => {
+    const logs = [
+      touch('me', ActionType.RECEIVE, ActionQuality.GOOD),
+      touch('me', ActionType.SET),
+      touch('me', ActionType.ATTACK),
+      touch('me', ActionType.SET),
+      touch('me', ActionType.ATTACK)
+    ];
+    expect(getSetterDeliveries(logs, 'me').map(d => d.receptionQuality)).toEqual([ActionQuality.GOOD, null]);
+  });
+});
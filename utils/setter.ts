@@ -0,0 +1,67 @@
+import { ActionQuality, ActionType, LogEntry, TeamSide } from '../types';
+
+// An attack set up by a SET touch of the same team in the same rally
+export interface SetterDelivery {
+  set: LogEntry;
+  attack: LogEntry;
+  target: string;                     // Attacker role (OH/MB/OP...) or position when the role is unknown
+  rotation?: number;                  // Setting team's rotation (entries with a court snapshot)
+  receptionQuality: ActionQuality | null; // Quality of the team's reception earlier in the rally, null = transition
+}
+
+export interface DeliveryRow {
+  key: string;
+  total: number;
+  targets: Record<string, number>;
+}
+
+export const getAttackTarget = (attack: LogEntry): string => {
+  return attack.playerRole && attack.playerRole !== '?' ? attack.playerRole : `P${attack.position}`;
+};
+
+export const getSetterDeliveries = (logs: LogEntry[], side: TeamSide): SetterDelivery[] => {
+  const deliveries: SetterDelivery[] = [];
+  let rallyId: number | undefined;
+  let reception: LogEntry | null = null;
+  let previous: LogEntry | null = null;
+
+  logs.forEach(l => {
+    if (l.rallyId === undefined || l.team !== side) return;
+    if (l.rallyId !== rallyId) {
+      rallyId = l.rallyId;
+      reception = null;
+      previous = null;
+    }
+
+    if (l.action === ActionType.RECEIVE) reception = l;
+    // A dig starts a transition: later attacks of the rally no longer follow the reception
+    if (l.action === ActionType.DIG) reception = null;
+    if (l.action === ActionType.ATTACK && previous?.action === ActionType.SET) {
+      deliveries.push({
+        set: previous,
+        attack: l,
+        target: getAttackTarget(l),
+        rotation: previous.court?.rotation[side],
+        receptionQuality: reception ? reception.quality : null
+      });
+    }
+    // Only the first attack after the reception is a reception play (the ball may come back without a dig)
+    if (l.action === ActionType.ATTACK) reception = null;
+    previous = l;
+  });
+
+  return deliveries;
+};
+
+export const groupDeliveries = (deliveries: SetterDelivery[], getKey: (d: SetterDelivery) => string | null): DeliveryRow[] => {
+  const rows = new Map<string, DeliveryRow>();
+  deliveries.forEach(d => {
+    const key = getKey(d);
+    if (key === null) return;
+    const row = rows.get(key) || { key, total: 0, targets: {} };
+    row.total++;
+    row.targets[d.target] = (row.targets[d.target] || 0) + 1;
+    rows.set(key, row);
+  });
+  return Array.from(rows.values());
+};
@@ -0,0 +1,62 @@
+import { ActionType, LogEntry, Lineup, TeamSide } from '../types';
+import { getTeamLogs } from './logs';
+
+// All SUB entries of one team in one set, in the order they happened
+export const getSetSubstitutions = (logs: LogEntry[], setNumber: number, side: TeamSide): LogEntry[] => {
+  return getTeamLogs(logs, side).filter(l => l.action === ActionType.SUB && l.setNumber === setNumber);
+};
+
+export const countSubstitutions = (logs: LogEntry[], setNumber: number, side: TeamSide): number => {
+  return getSetSubstitutions(logs, setNumber, side).length;
+};
+
+// FIVB pairing: a starter and the substitute who replaced them form a pair for the whole set
+export interface SubPair {
+  starter: string;
+  substitute: string;
+  returned: boolean; // The starter came back; neither player may be substituted again this set
+}
+
+export const getSubPairs = (subs: LogEntry[]): SubPair[] => {
+  const pairs: SubPair[] = [];
+  subs.forEach(l => {
+    const openPair = pairs.find(p => !p.returned && p.substitute === l.subOut && p.starter === l.playerNumber);
+    if (openPair) {
+      openPair.returned = true;
+    } else if (l.subOut) {
+      pairs.push({ starter: l.subOut, substitute: l.playerNumber, returned: false });
+    }
+  });
+  return pairs;
+};
+
+const findPosition = (lineup: Lineup, player: string): string | undefined => {
+  return Object.entries(lineup).find(([, num]) => num === player)?.[0];
+};
+
+// Returns a message explaining why the swap is illegal, or null when it is allowed
+export const validateSubstitution = (pairs: SubPair[], lineup: Lineup, incoming: string, outgoing: string): string | null => {
+  // A substitute can only be replaced by the starter they came in for
+  const outgoingPair = pairs.find(p => !p.returned && p.substitute === outgoing);
+  if (outgoingPair) {
+    return incoming === outgoingPair.starter ? null : `#${outgoing} 只能由原先發 #${outgoingPair.starter} 換回`;
+  }
+
+  if (pairs.some(p => p.returned && p.starter === outgoing)) {
+    return `#${outgoing} 本局已換回過，不能再被換下`;
+  }
+
+  // A starter on the bench may only come back in their own spot
+  const incomingPair = pairs.find(p => p.starter === incoming);
+  if (incomingPair) {
+    if (incomingPair.returned) return `#${incoming} 本局已換回過，不能再上場`;
+    const subPosition = findPosition(lineup, incomingPair.substitute);
+    return `#${incoming} 只能換下 #${incomingPair.substitute}${subPosition ? ` (P${subPosition})` : ''}，回到原本的位置`;
+  }
+
+  if (pairs.some(p => p.substitute === incoming)) {
+    return `#${incoming} 本局已替補上場過，不能再上場`;
+  }
+
+  return null;
+};
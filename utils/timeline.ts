@@ -0,0 +1,102 @@
+import { ActionType, LogEntry, ResultType, TeamSide, TimelineEdit } from '../types';
+import { rotateSnapshot, shiftRotation } from './rotation';
+
+// Team whose score an entry changes, with -1 for a manual score correction downwards
+export const getScoreChange = (log: Pick<LogEntry, 'action' | 'result' | 'team'>): { side: TeamSide, delta: number } | null => {
+  if (log.action === ActionType.ADJUST) {
+    return { side: log.team, delta: log.result === ResultType.POINT ? 1 : -1 };
+  }
+  if (log.result === ResultType.POINT) return { side: log.team, delta: 1 };
+  if (log.result === ResultType.ERROR) return { side: log.team === 'me' ? 'op' : 'me', delta: 1 };
+  return null;
+};
+
+export const applyTimelineEdit = (logs: LogEntry[], edit: TimelineEdit): LogEntry[] => {
+  switch (edit.kind) {
+    case 'UPDATE': return logs.map((l, i) => i === edit.index ? edit.entry : l);
+    case 'INSERT': return [...logs.slice(0, edit.index), edit.entry, ...logs.slice(edit.index)];
+    case 'DELETE': return logs.filter((_, i) => i !== edit.index);
+  }
+};
+
+type SideOuts = Record<TeamSide, number>;
+
+// Side-outs won by each team before every entry of the set, keyed by entry id
+const countSideOuts = (setLogs: LogEntry[], firstServer: TeamSide) => {
+  const before = new Map<string, SideOuts>();
+  const sideOuts: SideOuts = { me: 0, op: 0 };
+  let server = firstServer;
+  setLogs.forEach(log => {
+    before.set(log.id, { ...sideOuts });
+    const change = getScoreChange(log);
+    if (change && change.delta > 0 && change.side !== server) {
+      sideOuts[change.side]++;
+      server = change.side;
+    }
+  });
+  return { before, total: sideOuts };
+};
+
+export interface TimelineResult {
+  logs: LogEntry[];
+  myScore: number;
+  opScore: number;
+  servingTeam: TeamSide;
+  rotationShift: Record<TeamSide, number>; // Rotations to apply to the current lineups
+}
+
+// Replays a set after its timeline was edited: scores and serving team follow from the point
+// winners. Side-outs gained or lost compared with the original log shift the stamped rotations
+// and lineups, so manual rotations and substitutions made along the way are kept.
+export const recomputeSet = (
+  original: LogEntry[],
+  edited: LogEntry[],
+  setNumber: number,
+  firstServer: TeamSide
+): TimelineResult => {
+  const originalCounts = countSideOuts(original.filter(l => l.setNumber === setNumber), firstServer);
+  const setLogs = edited.filter(l => l.setNumber === setNumber);
+
+  // Inserted entries are compared with the entry they were placed before
+  const reference = new Map<string, SideOuts>();
+  let next = originalCounts.total;
+  [...setLogs].reverse().forEach(log => {
+    next = originalCounts.before.get(log.id) || next;
+    reference.set(log.id, next);
+  });
+
+  const score: Record<TeamSide, number> = { me: 0, op: 0 };
+  const sideOuts: SideOuts = { me: 0, op: 0 };
+  let server = firstServer;
+
+  const logs = edited.map(log => {
+    if (log.setNumber !== setNumber) return log;
+
+    // Entries are stamped with the court before their own point
+    const was = reference.get(log.id)!;
+    const shift = { me: sideOuts.me - was.me, op: sideOuts.op - was.op };
+    const court = log.court && {
+      rotation: { me: shiftRotation(log.court.rotation.me, shift.me), op: shiftRotation(log.court.rotation.op, shift.op) },
+      lineups: { me: rotateSnapshot(log.court.lineups.me, shift.me), op: rotateSnapshot(log.court.lineups.op, shift.op) }
+    };
+
+    const change = getScoreChange(log);
+    if (change) {
+      score[change.side] = Math.max(0, score[change.side] + change.delta);
+      if (change.delta > 0 && change.side !== server) {
+        sideOuts[change.side]++;
+        server = change.side;
+      }
+    }
+
+    return { ...log, myScore: score.me, opScore: score.op, servingTeam: server, court };
+  });
+
+  return {
+    logs,
+    myScore: score.me,
+    opScore: score.op,
+    servingTeam: server,
+    rotationShift: { me: sideOuts.me - originalCounts.total.me, op: sideOuts.op - originalCounts.total.op }
+  };
+};
@@ -0,0 +1,19 @@
+import { ActionType, LogEntry, TeamSide } from '../types';
+import { getTeamLogs } from './logs';
+
+// All TIMEOUT entries of one team in one set, in the order they were called
+export const getSetTimeouts = (logs: LogEntry[], setNumber: number, side: TeamSide): LogEntry[] => {
+  return getTeamLogs(logs, side).filter(l => l.action === ActionType.TIMEOUT && l.setNumber === setNumber);
+};
+
+// Points each team scored after a timeout, until the next timeout (either team) or the end of the set
+export const getRunAfterTimeout = (logs: LogEntry[], timeout: LogEntry): { me: number, op: number } => {
+  const start = logs.findIndex(l => l.id === timeout.id);
+  let last = timeout;
+  for (let i = start + 1; i < logs.length; i++) {
+    const l = logs[i];
+    if (l.setNumber !== timeout.setNumber || l.action === ActionType.TIMEOUT) break;
+    last = l;
+  }
+  return { me: last.myScore - timeout.myScore, op: last.opScore - timeout.opScore };
+};
@@ -0,0 +1,67 @@
+import { Coordinate, CourtZone, LogEntry, SubZone, TeamSide, Zone } from '../types';
+
+// Zones seen from behind a team's own end line, facing the net:
+//
+//   net ───────────
+//    4 | 3 | 2      front   (0-3m from the net)
+//    7 | 8 | 9      middle  (3-6m)
+//    5 | 6 | 1      back    (6-9m)
+//
+// Each zone is split in four 1.5m sub-zones, clockwise from the net side:
+//    A | B          A = front-left, B = front-right
+//    D | C          C = back-right, D = back-left
+const ZONE_GRID: Zone[][] = [
+  [4, 3, 2],
+  [7, 8, 9],
+  [5, 6, 1],
+];
+
+const SUB_ZONES: SubZone[][] = [
+  ['A', 'B'],
+  ['D', 'C'],
+];
+
+const clamp = (value: number) => Math.min(Math.max(value, 0), 8.999);
+
+// Coordinates are 0-100% of the 18x9 court. My half is x < 50 with zone 4 at the top (small y),
+// the opponent half mirrors it (their zone 4 is at the bottom).
+export const getCourtZone = (coord: Coordinate): CourtZone => {
+  const side: TeamSide = coord.x < 50 ? 'me' : 'op';
+  const depth = side === 'me' ? (50 - coord.x) / 50 * 9 : (coord.x - 50) / 50 * 9;
+  const lateral = side === 'me' ? coord.y / 100 * 9 : (100 - coord.y) / 100 * 9;
+  const out = coord.x < 0 || coord.x > 100 || coord.y < 0 || coord.y > 100;
+
+  const d = clamp(depth);
+  const l = clamp(lateral);
+  return {
+    side,
+    zone: ZONE_GRID[Math.floor(d / 3)][Math.floor(l / 3)],
+    subZone: SUB_ZONES[d % 3 < 1.5 ? 0 : 1][l % 3 < 1.5 ? 0 : 1],
+    out: out || undefined
+  };
+};
+
+// Stored zones, computed from the coordinates for entries logged before zones existed
+export const getStartZone = (log: LogEntry): CourtZone | undefined => {
+  return log.startZone ?? (log.startCoord ? getCourtZone(log.startCoord) : undefined);
+};
+
+export const getEndZone = (log: LogEntry): CourtZone | undefined => {
+  return log.endZone ?? (log.endCoord ? getCourtZone(log.endCoord) : undefined);
+};
+
+// e.g. "5A", or "OUT" for a ball landing outside the court
+export const formatZone = (zone?: CourtZone): string => {
+  if (!zone) return '';
+  return zone.out ? 'OUT' : `${zone.zone}${zone.subZone}`;
+};
+
+// Share of in-court landings per zone, most frequent first
+export const getZoneDistribution = (logs: LogEntry[]): { zone: Zone, count: number, pct: number }[] => {
+  const zones = logs.map(getEndZone).filter((z): z is CourtZone => !!z && !z.out);
+  const counts = new Map<Zone, number>();
+  zones.forEach(z => counts.set(z.zone, (counts.get(z.zone) || 0) + 1));
+  return Array.from(counts.entries())
+    .map(([zone, count]) => ({ zone, count, pct: (count / zones.length) * 100 }))
+    .sort((a, b) => b.count - a.count);
+};